@@ -0,0 +1,89 @@
+import net from 'net';
+import readline from 'readline';
+import { RpcError } from '../shared/types';
+import { RPC_VERSION } from '../shared/rpc';
+import type { RpcMethod, RpcNotification, RpcParams, RpcResponse } from '../shared/rpc';
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Client side of the control socket protocol
+export class ControlClient {
+  private nextId = 1;
+  private pending: Map<number, PendingCall> = new Map();
+  private notificationHandlers: ((notification: RpcNotification) => void)[] = [];
+
+  private constructor(private socket: net.Socket) {
+    readline.createInterface({ input: socket, crlfDelay: Infinity }).on('line', line => this.handleLine(line));
+
+    socket.on('close', () => {
+      for (const call of this.pending.values()) {
+        call.reject(new Error('Connection to Runbar closed'));
+      }
+      this.pending.clear();
+    });
+  }
+
+  // Resolves null when nothing is listening on the socket
+  static connect(socketPath: string): Promise<ControlClient | null> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(socketPath);
+      socket.once('connect', () => {
+        socket.removeAllListeners('error');
+        socket.on('error', () => socket.destroy());
+        resolve(new ControlClient(socket));
+      });
+      socket.once('error', (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+          resolve(null);
+        } else {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  call<T = unknown>(method: RpcMethod, params: RpcParams = {}): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.socket.write(`${JSON.stringify({ jsonrpc: RPC_VERSION, id, method, params })}\n`);
+    });
+  }
+
+  onNotification(handler: (notification: RpcNotification) => void): void {
+    this.notificationHandlers.push(handler);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private handleLine(line: string): void {
+    let message: RpcResponse | RpcNotification;
+    try {
+      message = JSON.parse(line) as RpcResponse | RpcNotification;
+    } catch (error) {
+      return;
+    }
+
+    if ('method' in message) {
+      this.notificationHandlers.forEach(handler => handler(message as RpcNotification));
+      return;
+    }
+
+    const call = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!call) {
+      return;
+    }
+    this.pending.delete(message.id as number);
+
+    if (message.error) {
+      call.reject(new RpcError(message.error.message, message.error.code, message.error.data));
+    } else {
+      call.resolve(message.result);
+    }
+  }
+}
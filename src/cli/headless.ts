@@ -0,0 +1,22 @@
+import { RunbarRuntime } from '../main/runtime';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('Headless');
+
+// Runs the runtime and its control socket in this process, for when the tray
+// app is not running. Services started here live as long as the process;
+// those still running from an earlier session are left running.
+export async function startHeadless(socketPath: string): Promise<RunbarRuntime> {
+  const runtime = new RunbarRuntime({ socketPath, releaseReattached: true });
+  await runtime.initialize();
+
+  try {
+    await runtime.startControlServer();
+  } catch (error) {
+    await runtime.shutdown();
+    throw error;
+  }
+
+  log.info('Headless runtime started', { socketPath });
+  return runtime;
+}
@@ -0,0 +1,512 @@
+#!/usr/bin/env node
+import path from 'path';
+import type { Writable } from 'stream';
+import type { Service, Group, GroupServiceResult, ServiceStatus, HealthState, ResourceSample } from '../shared/types';
+import { RpcError } from '../shared/types';
+import { config } from '../shared/config';
+import { setConsoleLogging } from '../shared/logger';
+import { RpcErrorCode } from '../shared/rpc';
+import type { RpcMethod, RpcNotification } from '../shared/rpc';
+import { StorageService } from '../services/storage';
+import { ServiceDiscoveryService } from '../services/discovery';
+import { ControlClient } from './client';
+import type { RunbarRuntime } from '../main/runtime';
+import { runDaemon } from '../main/daemon';
+import { startHeadless } from './headless';
+import { formatBytes } from '../core/resourceMonitor';
+
+const USAGE = `Usage: runbar <command> [options]
+
+Commands:
+  ls                          List services and groups
+  status [--json]             Show whether Runbar is running and service states
+  start <service|group>       Start a service or group
+  stop <service|group>        Stop a service or group
+  restart <service>           Restart a service
+  logs <service> [-f] [-n N] [--since <time>]
+                              Print recent logs, -f to follow
+  top [-w]                    Show CPU, memory, threads and open files, -w to refresh
+  scan <dir> [--add] [--json] Discover services in a directory, --add to save them
+  procfile <group> [-o <file>]
+                              Print a group as a Procfile, -o to write it to a file
+  daemon                      Run Runbar without the tray app until interrupted
+
+When the Runbar app is not running, commands run headless in this process;
+'start' then stays in the foreground until interrupted.`;
+
+const VALUE_FLAGS = new Set(['lines', 'since', 'output']);
+const FLAG_ALIASES: Record<string, string> = { f: 'follow', n: 'lines', h: 'help', w: 'watch', o: 'output' };
+
+const TOP_REFRESH_INTERVAL = 2000;
+
+type ListedService = Service & {
+  status: ServiceStatus;
+  health: HealthState;
+  ports: number[];
+  usage: ResourceSample | null;
+};
+
+interface ListedEntry {
+  timestamp: string;
+  stream: string;
+  text: string;
+}
+
+export interface ParsedArgs {
+  command: string | undefined;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+export interface CliOptions {
+  socketPath?: string;
+  stdout?: Writable;
+  stderr?: Writable;
+}
+
+interface Session {
+  client: ControlClient;
+  headless: RunbarRuntime | null;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const match = arg.match(/^--?([^=]+)(?:=(.*))?$/);
+    if (!match) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const name = FLAG_ALIASES[match[1]!] ?? match[1]!;
+    if (match[2] !== undefined) {
+      flags[name] = match[2];
+    } else if (VALUE_FLAGS.has(name)) {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for --${name}`);
+      }
+      flags[name] = value;
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { command: positionals.shift(), positionals, flags };
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0]!.map((_, column) => Math.max(...rows.map(row => row[column]!.length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd()).join('\n');
+}
+
+// Ports a running service listens on, else its configured port
+function formatPorts(service: ListedService): string {
+  if (service.ports.length > 0) {
+    return service.ports.join(',');
+  }
+  return service.port ? String(service.port) : '-';
+}
+
+function formatUsage(service: ListedService): string[] {
+  const { usage } = service;
+  if (!usage) {
+    return ['-', '-', '-', '-', '-'];
+  }
+
+  const overThreshold = service.memoryThreshold !== undefined && usage.rss > service.memoryThreshold * 1024 * 1024;
+  return [
+    `${usage.cpu.toFixed(1)}%`,
+    `${formatBytes(usage.rss)}${overThreshold ? ' !' : ''}`,
+    usage.threads === null ? '-' : String(usage.threads),
+    usage.fds === null ? '-' : String(usage.fds),
+    String(usage.processes),
+  ];
+}
+
+function formatEntry(entry: ListedEntry): string {
+  const time = new Date(entry.timestamp).toLocaleTimeString('en-GB', { hour12: false });
+  return `${time} ${entry.text}`;
+}
+
+// The CLI exits right after, so the listener left for the other signal is harmless
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+}
+
+class Cli {
+  private socketPath: string;
+  private stdout: Writable;
+  private stderr: Writable;
+
+  constructor(options: CliOptions) {
+    this.socketPath = options.socketPath ?? config.getSocketPath();
+    this.stdout = options.stdout ?? process.stdout;
+    this.stderr = options.stderr ?? process.stderr;
+  }
+
+  async run(argv: string[]): Promise<number> {
+    try {
+      const args = parseArgs(argv);
+      if (!args.command || args.flags['help']) {
+        this.print(USAGE);
+        return args.command || args.flags['help'] ? 0 : 1;
+      }
+
+      switch (args.command) {
+        case 'ls':
+          return await this.withSession(session => this.list(session));
+        case 'status':
+          return await this.withSession(session => this.status(session, Boolean(args.flags['json'])));
+        case 'start':
+          return await this.withSession(session => this.start(session, this.requireTarget(args)));
+        case 'stop':
+          return await this.withSession(session => this.stop(session, this.requireTarget(args)));
+        case 'restart':
+          return await this.withSession(session => this.restart(session, this.requireTarget(args)));
+        case 'logs':
+          return await this.withSession(session => this.logs(session, this.requireTarget(args), args.flags));
+        case 'top':
+          return await this.withSession(session => this.top(session, Boolean(args.flags['watch'])));
+        case 'scan':
+          return await this.scan(this.requireTarget(args), args.flags);
+        case 'procfile':
+          return await this.procfile(this.requireTarget(args), args.flags);
+        case 'daemon':
+          setConsoleLogging(true);
+          await runDaemon({ socketPath: this.socketPath });
+          return 0;
+        default:
+          throw new Error(`Unknown command: ${args.command}\n\n${USAGE}`);
+      }
+    } catch (error) {
+      this.stderr.write(`runbar: ${(error as Error).message}\n`);
+      return 1;
+    }
+  }
+
+  private print(text: string): void {
+    this.stdout.write(`${text}\n`);
+  }
+
+  private requireTarget(args: ParsedArgs): string {
+    const target = args.positionals[0];
+    if (!target) {
+      throw new Error(`Missing argument for '${args.command}'\n\n${USAGE}`);
+    }
+    return target;
+  }
+
+  // Talks to the running app, or starts a headless runtime in this process
+  private async withSession(command: (session: Session) => Promise<number>): Promise<number> {
+    let client = await ControlClient.connect(this.socketPath);
+    let headless: RunbarRuntime | null = null;
+
+    if (!client) {
+      headless = await startHeadless(this.socketPath);
+      client = await ControlClient.connect(this.socketPath);
+      if (!client) {
+        await headless.shutdown();
+        throw new Error('Could not start headless mode');
+      }
+    }
+
+    try {
+      return await command({ client, headless });
+    } finally {
+      client.close();
+      await headless?.shutdown();
+    }
+  }
+
+  // Runs the service method, falling back to the group method when no service matches
+  private async callServiceOrGroup(
+    client: ControlClient,
+    target: string,
+    serviceMethod: RpcMethod,
+    groupMethod: RpcMethod
+  ): Promise<{ kind: 'service'; result: ListedService } | { kind: 'group'; result: GroupServiceResult[] }> {
+    try {
+      return { kind: 'service', result: await client.call<ListedService>(serviceMethod, { service: target }) };
+    } catch (error) {
+      if (!(error instanceof RpcError && error.rpcCode === RpcErrorCode.NotFound && error.message.startsWith('Unknown service'))) {
+        throw error;
+      }
+    }
+
+    try {
+      return { kind: 'group', result: await client.call<GroupServiceResult[]>(groupMethod, { group: target }) };
+    } catch (error) {
+      if (error instanceof RpcError && error.rpcCode === RpcErrorCode.NotFound) {
+        throw new Error(`Unknown service or group: ${target}`);
+      }
+      throw error;
+    }
+  }
+
+  private printGroupResults(results: GroupServiceResult[], services: ListedService[]): number {
+    for (const result of results) {
+      const name = services.find(s => s.id === result.service)?.name ?? result.service;
+      this.print(result.success ? `  ✓ ${name}` : `  ✗ ${name}: ${result.error ?? 'failed'}`);
+    }
+    return results.every(r => r.success) ? 0 : 1;
+  }
+
+  private async list({ client }: Session): Promise<number> {
+    const services = await client.call<ListedService[]>('services.list');
+    const groups = await client.call<Group[]>('groups.list');
+
+    if (services.length === 0) {
+      this.print('No services configured');
+    } else {
+      this.print(formatTable([
+        ['SERVICE', 'STATUS', 'HEALTH', 'PORT', 'PATH'],
+        ...services.map(s => [s.name, s.status, s.health, formatPorts(s), s.path]),
+      ]));
+    }
+
+    if (groups.length > 0) {
+      this.print('');
+      this.print(formatTable([
+        ['GROUP', 'SERVICES'],
+        ...groups.map(g => [
+          g.name,
+          g.services.map(id => services.find(s => s.id === id)?.name ?? id).join(', '),
+        ]),
+      ]));
+    }
+    return 0;
+  }
+
+  private async status(session: Session, json: boolean): Promise<number> {
+    const services = await session.client.call<ListedService[]>('services.list');
+    const groups = await session.client.call<Group[]>('groups.list');
+    const running = session.headless === null;
+
+    if (json) {
+      this.print(JSON.stringify({ running, services, groups }, null, 2));
+      return 0;
+    }
+
+    const active = services.filter(s => s.status === 'running' || s.status === 'starting').length;
+    this.print(running ? 'Runbar is running' : 'Runbar is not running');
+    this.print(`${active}/${services.length} services running`);
+    if (services.length > 0) {
+      this.print('');
+      return this.list(session);
+    }
+    return 0;
+  }
+
+  private async start(session: Session, target: string): Promise<number> {
+    const { client, headless } = session;
+    const outcome = await this.callServiceOrGroup(client, target, 'services.start', 'groups.start');
+
+    let exitCode = 0;
+    if (outcome.kind === 'service') {
+      this.print(`Started ${outcome.result.name}`);
+    } else {
+      this.print(`Started group ${target}`);
+      exitCode = this.printGroupResults(outcome.result, await client.call<ListedService[]>('services.list'));
+    }
+
+    if (headless) {
+      this.print('Runbar is not running; keeping services in the foreground (Ctrl-C to stop)');
+      await this.streamLogs(client);
+    }
+    return exitCode;
+  }
+
+  // Prints every service's output until interrupted
+  private async streamLogs(client: ControlClient): Promise<void> {
+    const services = await client.call<ListedService[]>('services.list');
+    client.onNotification((notification: RpcNotification) => {
+      const { type, payload } = notification.params as { type: string; payload: { service: Service; entry: ListedEntry } };
+      if (type === 'service:log-update') {
+        const name = services.find(s => s.id === payload.service.id)?.name ?? payload.service.name;
+        this.print(`[${name}] ${formatEntry(payload.entry)}`);
+      }
+    });
+    await client.call('events.subscribe', { events: ['service:log-update'] });
+    await waitForSignal();
+  }
+
+  // Without the app, only services reattached from an earlier session can be
+  // running, e.g. detached ones that outlived it
+  private async hasRunningServices(client: ControlClient): Promise<boolean> {
+    const services = await client.call<ListedService[]>('services.list');
+    return services.some(s => s.status === 'running' || s.status === 'starting');
+  }
+
+  private async stop({ client, headless }: Session, target: string): Promise<number> {
+    if (headless && !(await this.hasRunningServices(client))) {
+      throw new Error('Runbar is not running; nothing to stop');
+    }
+
+    const outcome = await this.callServiceOrGroup(client, target, 'services.stop', 'groups.stop');
+    if (outcome.kind === 'service') {
+      this.print(`Stopped ${outcome.result.name}`);
+      return 0;
+    }
+
+    this.print(`Stopped group ${target}`);
+    return this.printGroupResults(outcome.result, await client.call<ListedService[]>('services.list'));
+  }
+
+  private async restart({ client, headless }: Session, target: string): Promise<number> {
+    if (headless && !(await this.hasRunningServices(client))) {
+      throw new Error('Runbar is not running; use `runbar start` instead');
+    }
+
+    const service = await client.call<ListedService>('services.restart', { service: target });
+    this.print(`Restarted ${service.name}`);
+
+    // A detached service keeps running after this process exits; any other
+    // lives only as long as the headless runtime
+    if (headless && !service.detached) {
+      this.print('Runbar is not running; keeping services in the foreground (Ctrl-C to stop)');
+      await this.streamLogs(client);
+    }
+    return 0;
+  }
+
+  private async logs({ client, headless }: Session, target: string, flags: ParsedArgs['flags']): Promise<number> {
+    const lines = flags['lines'] !== undefined ? parseInt(String(flags['lines']), 10) : undefined;
+    if (lines !== undefined && (isNaN(lines) || lines < 0)) {
+      throw new Error(`Invalid line count: ${flags['lines']}`);
+    }
+
+    const since = typeof flags['since'] === 'string' ? new Date(flags['since']) : undefined;
+    if (since && isNaN(since.getTime())) {
+      throw new Error(`Invalid time: ${flags['since']}`);
+    }
+
+    const follow = Boolean(flags['follow']) && !headless;
+    if (flags['follow'] && headless) {
+      this.stderr.write('runbar: Runbar is not running; showing persisted logs only\n');
+    }
+
+    client.onNotification((notification: RpcNotification) => {
+      if (notification.method === 'logs.entry') {
+        this.print(formatEntry((notification.params as { entry: ListedEntry }).entry));
+      }
+    });
+
+    const result = await client.call<{ entries: ListedEntry[] }>('logs.tail', {
+      service: target,
+      follow,
+      ...(lines !== undefined && { limit: lines }),
+      ...(since && { since: since.toISOString() }),
+    });
+    result.entries.forEach(entry => this.print(formatEntry(entry)));
+
+    if (follow) {
+      await waitForSignal();
+    }
+    return 0;
+  }
+
+  private async top({ client, headless }: Session, watch: boolean): Promise<number> {
+    if (headless) {
+      this.print('Runbar is not running; no services to monitor');
+      return 0;
+    }
+
+    const render = async (): Promise<string> => {
+      const services = await client.call<ListedService[]>('services.list');
+      const active = services.filter(s => s.status === 'running' || s.status === 'starting');
+      if (active.length === 0) {
+        return 'No services running';
+      }
+      return formatTable([
+        ['SERVICE', 'CPU', 'MEM', 'THREADS', 'FDS', 'PROCS'],
+        ...active.map(s => [s.name, ...formatUsage(s)]),
+      ]);
+    };
+
+    if (!watch) {
+      this.print(await render());
+      return 0;
+    }
+
+    const refresh = async () => this.stdout.write(`\x1b[2J\x1b[H${await render()}\n`);
+    await refresh();
+    const timer = setInterval(() => {
+      refresh().catch(error => this.stderr.write(`runbar: ${(error as Error).message}\n`));
+    }, TOP_REFRESH_INTERVAL);
+    await waitForSignal();
+    clearInterval(timer);
+    return 0;
+  }
+
+  // Discovery does not need the app, so it always runs locally
+  private async scan(dir: string, flags: ParsedArgs['flags']): Promise<number> {
+    const root = path.resolve(dir);
+    const discovered = await new ServiceDiscoveryService().discoverServices(root);
+
+    if (flags['json']) {
+      this.print(JSON.stringify(discovered, null, 2));
+    } else if (discovered.length === 0) {
+      this.print(`No services found in ${root}`);
+    } else {
+      this.print(formatTable([
+        ['NAME', 'TYPE', 'COMMAND', 'PATH'],
+        ...discovered.map(s => [s.name, s.projectType, s.command, s.path]),
+      ]));
+      for (const service of discovered) {
+        for (const warning of service.warnings ?? []) {
+          this.stderr.write(`${service.name}: ${warning}\n`);
+        }
+      }
+    }
+
+    if (flags['add'] && discovered.length > 0) {
+      const storageService = new StorageService();
+      await storageService.initialize();
+      // Procfile and compose services share a directory, so the command tells them apart
+      const key = (service: { path: string; command: string }) => `${service.path}\n${service.command}`;
+      const existing = new Set((await storageService.getServices()).map(key));
+      const added = (await storageService.addDiscoveredServices(discovered.filter(s => !existing.has(key(s))))).length;
+      this.stderr.write(`Added ${added} service(s), skipped ${discovered.length - added} already configured\n`);
+    }
+    return 0;
+  }
+
+  // Like scan, this only reads the configuration, so it runs locally
+  private async procfile(target: string, flags: ParsedArgs['flags']): Promise<number> {
+    const storageService = new StorageService();
+    await storageService.initialize();
+
+    const wanted = target.toLowerCase();
+    const group = (await storageService.getGroups()).find(g => g.id === target || g.name.toLowerCase() === wanted);
+    if (!group) {
+      throw new Error(`No group named '${target}'`);
+    }
+
+    const output = flags['output'];
+    if (typeof output === 'string') {
+      await storageService.exportGroupAsProcfile(group.id, path.resolve(output));
+      this.stderr.write(`Wrote ${group.name} to ${path.resolve(output)}\n`);
+    } else {
+      this.stdout.write(await storageService.exportGroupAsProcfile(group.id));
+    }
+    return 0;
+  }
+}
+
+export function runCli(argv: string[], options: CliOptions = {}): Promise<number> {
+  return new Cli(options).run(argv);
+}
+
+if (require.main === module) {
+  setConsoleLogging(false);
+  runCli(process.argv.slice(2)).then((exitCode) => {
+    process.exit(exitCode);
+  });
+}
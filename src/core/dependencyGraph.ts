@@ -0,0 +1,83 @@
+import type { Service } from '../shared/types';
+import { ValidationError } from '../shared/types';
+
+// Adds every service that the given services depend on, directly or
+// transitively. Unknown dependency IDs are ignored here and reported when the
+// dependent service is started.
+export function withDependencies(services: Service[], allServices: Service[]): Service[] {
+  const byId = new Map(allServices.map(s => [s.id, s]));
+  const result = new Map<string, Service>();
+  const pending = [...services];
+
+  while (pending.length > 0) {
+    const service = pending.shift()!;
+    if (result.has(service.id)) {
+      continue;
+    }
+    result.set(service.id, service);
+
+    for (const depId of service.dependencies ?? []) {
+      const dependency = byId.get(depId);
+      if (dependency) {
+        pending.push(dependency);
+      }
+    }
+  }
+
+  return Array.from(result.values());
+}
+
+// Returns the names of the services forming a cycle, or null if the graph is acyclic
+export function findDependencyCycle(services: Service[]): string[] | null {
+  const byId = new Map(services.map(s => [s.id, s]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: Service[] = [];
+
+  const visit = (service: Service): string[] | null => {
+    if (visited.has(service.id)) {
+      return null;
+    }
+    if (visiting.has(service.id)) {
+      const start = stack.findIndex(s => s.id === service.id);
+      return [...stack.slice(start), service].map(s => s.name);
+    }
+
+    visiting.add(service.id);
+    stack.push(service);
+
+    for (const depId of service.dependencies ?? []) {
+      const dependency = byId.get(depId);
+      const cycle = dependency ? visit(dependency) : null;
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    stack.pop();
+    visiting.delete(service.id);
+    visited.add(service.id);
+    return null;
+  };
+
+  for (const service of services) {
+    const cycle = visit(service);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
+
+export function assertNoDependencyCycle(services: Service[]): void {
+  const cycle = findDependencyCycle(services);
+  if (cycle) {
+    throw new ValidationError(`Dependency cycle detected: ${cycle.join(' -> ')}`, 'dependencies', cycle);
+  }
+}
+
+// Services within the set that list the given service as a dependency
+export function getDependents(service: Service, services: Service[]): Service[] {
+  return services.filter(s => s.dependencies?.includes(service.id));
+}
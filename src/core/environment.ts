@@ -0,0 +1,177 @@
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { Service } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('Environment');
+
+const LOGIN_SHELL_TIMEOUT = 10000;
+const ENV_MARKER = '__RUNBAR_ENV__';
+
+export type EnvSource = 'runbar' | 'login-shell' | 'port' | 'env-file' | 'service';
+
+export interface ResolvedEnvironment {
+  env: Record<string, string>;
+  sources: Record<string, { source: EnvSource; file?: string }>;
+  warnings: string[];
+}
+
+// Parses KEY=VALUE lines in the common dotenv dialect: blank lines and
+// comments are skipped, an `export ` prefix is allowed, single-quoted values
+// are literal and double-quoted values understand \n, \t, \" and \\
+export function parseDotenv(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+
+    const key = match[1]!;
+    let value = match[2]!;
+
+    if (value.startsWith('"')) {
+      let end = 1;
+      while (end < value.length && value[end] !== '"') {
+        end += value[end] === '\\' ? 2 : 1;
+      }
+      value = value
+        .slice(1, end)
+        .replace(/\\([nrt"\\])/g, (_, char: string) => ({ n: '\n', r: '\r', t: '\t' }[char] ?? char));
+    } else if (value.startsWith("'")) {
+      const end = value.indexOf("'", 1);
+      value = value.slice(1, end === -1 ? undefined : end);
+    } else {
+      // Unquoted values end at an inline comment
+      value = value.replace(/\s+#.*$/, '').trim();
+    }
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+// Writes variables back as lines parseDotenv reads unchanged: values that an
+// unquoted line would trim, cut at a comment or unquote are double-quoted
+export function formatDotenv(env: Record<string, string>): string {
+  return Object.entries(env)
+    .map(([key, value]) => {
+      if (!/^\s|\s$|\s#|^["']|[\r\n]/.test(value)) {
+        return `${key}=${value}`;
+      }
+      const escaped = value.replace(/[\\"\n\r\t]/g, char => ({ '\n': '\\n', '\r': '\\r', '\t': '\\t' }[char] ?? `\\${char}`));
+      return `${key}="${escaped}"`;
+    })
+    .join('\n');
+}
+
+let loginShellEnv: Promise<Record<string, string>> | null = null;
+
+// Runs the user's login shell once and captures its environment. GUI launches
+// on macOS inherit launchd's minimal environment, so PATH additions from
+// ~/.zprofile and friends would otherwise be missing.
+export function getLoginShellEnv(): Promise<Record<string, string>> {
+  if (!loginShellEnv) {
+    loginShellEnv = captureLoginShellEnv().catch((error: Error) => {
+      log.warn('Failed to read login shell environment', { error });
+      loginShellEnv = null;
+      return {};
+    });
+  }
+  return loginShellEnv;
+}
+
+function captureLoginShellEnv(): Promise<Record<string, string>> {
+  const shell = process.env['SHELL'] || (process.platform === 'darwin' ? '/bin/zsh' : '/bin/sh');
+  // Print the environment from a node process (Electron in node mode) between
+  // markers, so output from shell startup files cannot corrupt it
+  const script = `process.stdout.write('${ENV_MARKER}' + JSON.stringify(process.env) + '${ENV_MARKER}')`;
+  const command = `'${process.execPath.replace(/'/g, `'\\''`)}' -e "${script}"`;
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      shell,
+      ['-ilc', command],
+      {
+        timeout: LOGIN_SHELL_TIMEOUT,
+        cwd: os.homedir(),
+        env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+      },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        const start = stdout.indexOf(ENV_MARKER);
+        const end = stdout.lastIndexOf(ENV_MARKER);
+        if (start === -1 || end <= start) {
+          reject(new Error('Login shell produced no environment'));
+          return;
+        }
+
+        const env = JSON.parse(stdout.slice(start + ENV_MARKER.length, end)) as Record<string, string>;
+        delete env['ELECTRON_RUN_AS_NODE'];
+        resolve(env);
+      }
+    );
+  });
+}
+
+// Builds the environment a service is spawned with. Later layers win:
+//   1. Runbar's own environment
+//   2. the login shell environment, if service.useLoginShellEnv is set
+//   3. PORT from service.port
+//   4. service.envFiles, in order, relative to service.path
+//   5. service.env
+export async function resolveServiceEnvironment(
+  service: Pick<Service, 'path' | 'port' | 'env' | 'envFiles' | 'useLoginShellEnv'>
+): Promise<ResolvedEnvironment> {
+  const resolved: ResolvedEnvironment = { env: {}, sources: {}, warnings: [] };
+
+  const apply = (vars: Record<string, string | undefined>, source: EnvSource, file?: string) => {
+    for (const [key, value] of Object.entries(vars)) {
+      if (value === undefined) {
+        continue;
+      }
+      resolved.env[key] = value;
+      resolved.sources[key] = file ? { source, file } : { source };
+    }
+  };
+
+  apply(process.env, 'runbar');
+
+  if (service.useLoginShellEnv) {
+    const shellEnv = await getLoginShellEnv();
+    if (Object.keys(shellEnv).length === 0) {
+      resolved.warnings.push('Could not read the login shell environment');
+    }
+    apply(shellEnv, 'login-shell');
+  }
+
+  if (service.port) {
+    apply({ PORT: String(service.port) }, 'port');
+  }
+
+  for (const envFile of service.envFiles ?? []) {
+    const filePath = path.resolve(service.path, envFile);
+    try {
+      apply(parseDotenv(await readFile(filePath, 'utf-8')), 'env-file', envFile);
+    } catch (error) {
+      resolved.warnings.push(`Could not read env file ${envFile}: ${(error as Error).message}`);
+    }
+  }
+
+  apply(service.env ?? {}, 'service');
+
+  return resolved;
+}
@@ -0,0 +1,114 @@
+import { exec } from 'child_process';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { Service, HealthCheck } from '../shared/types';
+import { config } from '../shared/config';
+
+export type ResolvedHealthCheck = HealthCheck & Required<Pick<HealthCheck, 'interval' | 'timeout'>>;
+
+export function resolveHealthCheck(check: HealthCheck): ResolvedHealthCheck {
+  return {
+    ...check,
+    interval: check.interval ?? config.defaults.healthCheck.interval,
+    timeout: check.timeout ?? config.defaults.healthCheck.timeout,
+  };
+}
+
+export function getHealthCheckUrl(service: Service, check: HealthCheck): string | null {
+  if (check.url) {
+    return check.url;
+  }
+
+  const port = check.port ?? service.port;
+  if (!port) {
+    return null;
+  }
+
+  const path = check.path ?? '/';
+  return `http://${config.defaults.healthCheck.host}:${port}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+export function probeHttp(url: string, expectedStatus: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const client = url.startsWith('https:') ? https : http;
+    const request = client.get(url, { timeout: timeoutMs }, (response) => {
+      response.resume();
+      resolve(response.statusCode === expectedStatus);
+    });
+
+    request.on('timeout', () => request.destroy());
+    request.on('error', () => resolve(false));
+  });
+}
+
+export function probeTcp(host: string, port: number, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    const finish = (result: boolean) => {
+      socket.destroy();
+      resolve(result);
+    };
+
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => finish(true));
+    socket.once('timeout', () => finish(false));
+    socket.once('error', () => finish(false));
+  });
+}
+
+export function probeCommand(command: string, cwd: string, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    exec(command, { cwd, timeout: timeoutMs }, error => resolve(!error));
+  });
+}
+
+// Runs a single network or command probe. Log-pattern checks are driven by process output
+// instead and always report false here.
+export async function runProbe(service: Service, check: ResolvedHealthCheck): Promise<boolean> {
+  const attemptTimeout = Math.min(check.interval, check.timeout);
+
+  switch (check.type) {
+    case 'http': {
+      const url = getHealthCheckUrl(service, check);
+      return url
+        ? probeHttp(url, check.expectedStatus ?? config.defaults.healthCheck.expectedStatus, attemptTimeout)
+        : false;
+    }
+
+    case 'tcp': {
+      const port = check.port ?? service.port;
+      return port ? probeTcp(config.defaults.healthCheck.host, port, attemptTimeout) : false;
+    }
+
+    case 'command':
+      return check.command ? probeCommand(check.command, service.path, attemptTimeout) : false;
+
+    default:
+      return false;
+  }
+}
+
+// Returns a reason the check can never pass, e.g. a TCP probe without a port
+export function validateHealthCheck(service: Service, check: HealthCheck): string | null {
+  switch (check.type) {
+    case 'http':
+      return getHealthCheckUrl(service, check) ? null : 'HTTP health check needs a url or port';
+    case 'tcp':
+      return check.port ?? service.port ? null : 'TCP health check needs a port';
+    case 'command':
+      return check.command ? null : 'Command health check needs a command';
+    case 'log':
+      if (!check.pattern) {
+        return 'Log health check needs a pattern';
+      }
+      try {
+        new RegExp(check.pattern);
+        return null;
+      } catch (error) {
+        return `Invalid log pattern: ${(error as Error).message}`;
+      }
+    default:
+      return `Unknown health check type: ${String((check as HealthCheck).type)}`;
+  }
+}
@@ -0,0 +1,43 @@
+import { StringDecoder } from 'string_decoder';
+
+// Lines longer than this are emitted in pieces so a process that never writes
+// a newline cannot grow the buffer without bound
+const MAX_LINE_LENGTH = 64 * 1024;
+
+// Turns arbitrary output chunks into complete lines. Multi-byte UTF-8
+// sequences split across chunks are held back by the decoder until complete,
+// and a trailing partial line is kept until the next chunk or end().
+export class LineSplitter {
+  private decoder = new StringDecoder('utf8');
+  private pending = '';
+
+  constructor(private onLine: (line: string) => void) {}
+
+  write(chunk: Buffer): void {
+    this.pending += this.decoder.write(chunk);
+
+    let newline: number;
+    while ((newline = this.pending.indexOf('\n')) !== -1) {
+      this.emit(this.pending.slice(0, newline));
+      this.pending = this.pending.slice(newline + 1);
+    }
+
+    while (this.pending.length > MAX_LINE_LENGTH) {
+      this.onLine(this.pending.slice(0, MAX_LINE_LENGTH));
+      this.pending = this.pending.slice(MAX_LINE_LENGTH);
+    }
+  }
+
+  // Flushes whatever is left once the stream has ended
+  end(): void {
+    this.pending += this.decoder.end();
+    if (this.pending) {
+      this.emit(this.pending);
+      this.pending = '';
+    }
+  }
+
+  private emit(line: string): void {
+    this.onLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+  }
+}
@@ -0,0 +1,230 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, open, readdir, readFile, rename, unlink } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import type { LogEntry, LogQuery } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { config } from '../shared/config';
+
+const log = createServiceLogger('LogStore');
+const gunzipAsync = promisify(gunzip);
+
+const CURRENT_LOG = 'current.log';
+const ARCHIVE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.log(\.gz)?$/;
+
+export interface LogStoreOptions {
+  maxFileSize?: number;
+  maxFileAge?: number;
+  maxArchives?: number;
+  retention?: number;
+}
+
+interface ServiceLogFile {
+  dir: string;
+  handle: FileHandle | null;
+  size: number;
+  openedAt: number;
+  buffer: string[];
+  flushing: Promise<void> | null;
+}
+
+// Archive names are the rotation time, so they sort chronologically and tell
+// us the newest entry they can contain
+function archiveName(date: Date): string {
+  return `${date.toISOString().replace(/[:.]/g, '-')}.log`;
+}
+
+function archiveTime(name: string): number {
+  const match = name.match(ARCHIVE_PATTERN);
+  if (!match) {
+    return NaN;
+  }
+  return Date.parse(match[1]!.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z'));
+}
+
+function parseEntries(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line) {
+      continue;
+    }
+    try {
+      const raw = JSON.parse(line) as Omit<LogEntry, 'timestamp'> & { timestamp: string };
+      entries.push({ ...raw, timestamp: new Date(raw.timestamp) });
+    } catch (error) {
+      // Partially written line from a crash
+    }
+  }
+  return entries;
+}
+
+// Appends service output to <logDir>/<service-id>/current.log as JSON lines.
+// The current file is rotated into a gzip archive once it grows past
+// maxFileSize or gets older than maxFileAge; archives beyond maxArchives or
+// older than retention are pruned.
+export class LogStore {
+  private files: Map<string, ServiceLogFile> = new Map();
+  private options: Required<LogStoreOptions>;
+
+  constructor(private logDir: string, options: LogStoreOptions = {}) {
+    this.options = { ...config.defaults.logPersistence, ...options };
+  }
+
+  append(serviceId: string, entry: LogEntry): void {
+    const file = this.getFile(serviceId);
+    file.buffer.push(`${JSON.stringify(entry)}\n`);
+
+    if (!file.flushing) {
+      file.flushing = this.flush(file).finally(() => {
+        file.flushing = null;
+      });
+    }
+  }
+
+  async readLogs(serviceId: string, query: LogQuery = {}): Promise<LogEntry[]> {
+    const dir = this.getServiceDir(serviceId);
+    await this.files.get(serviceId)?.flushing;
+
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch (error) {
+      return [];
+    }
+
+    const since = query.since?.getTime() ?? -Infinity;
+    const until = query.until?.getTime() ?? Infinity;
+    const limit = query.limit ?? Infinity;
+    // Newest first, so a limited query can stop early
+    const files = [
+      ...(names.includes(CURRENT_LOG) ? [CURRENT_LOG] : []),
+      ...names
+        .filter(name => ARCHIVE_PATTERN.test(name))
+        // While an archive is being compressed the uncompressed copy is the complete one
+        .filter(name => !(name.endsWith('.gz') && names.includes(name.slice(0, -'.gz'.length))))
+        .sort()
+        .reverse(),
+    ];
+
+    const result: LogEntry[] = [];
+    for (const name of files) {
+      if (name !== CURRENT_LOG && archiveTime(name) < since) {
+        break;
+      }
+
+      const entries = (await this.readFile(path.join(dir, name)))
+        .filter(entry => entry.timestamp.getTime() >= since && entry.timestamp.getTime() <= until);
+      result.unshift(...entries);
+
+      if (result.length >= limit) {
+        break;
+      }
+    }
+
+    return Number.isFinite(limit) ? result.slice(-limit) : result;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.files.values()).map(async (file) => {
+      await file.flushing;
+      await file.handle?.close();
+      file.handle = null;
+    }));
+    this.files.clear();
+  }
+
+  // Raw output of a detached service, which writes it itself; tailing it
+  // appends the lines here like any other output
+  getOutputPath(serviceId: string, stream: 'stdout' | 'stderr'): string {
+    return path.join(this.getServiceDir(serviceId), `${stream}.out`);
+  }
+
+  private getServiceDir(serviceId: string): string {
+    return path.join(this.logDir, serviceId.replace(/[^\w.-]/g, '_'));
+  }
+
+  private getFile(serviceId: string): ServiceLogFile {
+    let file = this.files.get(serviceId);
+    if (!file) {
+      file = { dir: this.getServiceDir(serviceId), handle: null, size: 0, openedAt: 0, buffer: [], flushing: null };
+      this.files.set(serviceId, file);
+    }
+    return file;
+  }
+
+  private async flush(file: ServiceLogFile): Promise<void> {
+    try {
+      while (file.buffer.length > 0) {
+        const chunk = file.buffer.splice(0).join('');
+        const handle = await this.getHandle(file);
+        await handle.write(chunk);
+        file.size += Buffer.byteLength(chunk);
+
+        if (file.size >= this.options.maxFileSize || Date.now() - file.openedAt >= this.options.maxFileAge) {
+          await this.rotate(file);
+        }
+      }
+    } catch (error) {
+      file.buffer.length = 0;
+      log.warn('Failed to write service logs', { dir: file.dir, error: error as Error });
+    }
+  }
+
+  private async getHandle(file: ServiceLogFile): Promise<FileHandle> {
+    if (!file.handle) {
+      await mkdir(file.dir, { recursive: true });
+      file.handle = await open(path.join(file.dir, CURRENT_LOG), 'a');
+      const stats = await file.handle.stat();
+      file.size = stats.size;
+      // birthtime is not available on every filesystem
+      file.openedAt = stats.size > 0 ? stats.birthtimeMs || stats.mtimeMs : Date.now();
+    }
+    return file.handle;
+  }
+
+  private async rotate(file: ServiceLogFile): Promise<void> {
+    await file.handle?.close();
+    file.handle = null;
+
+    const archive = path.join(file.dir, archiveName(new Date()));
+    await rename(path.join(file.dir, CURRENT_LOG), archive);
+
+    // Compression and pruning do not hold up further writes
+    this.compress(archive)
+      .then(() => this.prune(file.dir))
+      .catch(error => log.warn('Failed to archive service logs', { archive, error: error as Error }));
+  }
+
+  private async compress(archive: string): Promise<void> {
+    await pipeline(createReadStream(archive), createGzip(), createWriteStream(`${archive}.gz`));
+    await unlink(archive);
+  }
+
+  private async prune(dir: string): Promise<void> {
+    const archives = (await readdir(dir)).filter(name => ARCHIVE_PATTERN.test(name) && name.endsWith('.gz')).sort();
+    const cutoff = Date.now() - this.options.retention;
+
+    for (const [index, name] of archives.entries()) {
+      const excess = index < archives.length - this.options.maxArchives;
+      if (excess || archiveTime(name) < cutoff) {
+        await unlink(path.join(dir, name));
+      }
+    }
+  }
+
+  private async readFile(filePath: string): Promise<LogEntry[]> {
+    try {
+      const content = await readFile(filePath);
+      return parseEntries((filePath.endsWith('.gz') ? await gunzipAsync(content) : content).toString('utf-8'));
+    } catch (error) {
+      // Archive may have been compressed or pruned since we listed the directory
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Failed to read service logs', { file: filePath, error: error as Error });
+      }
+      return [];
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import path from 'path';
+import { constants } from 'fs';
+import { mkdir, open, truncate } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('OutputTailer');
+
+const POLL_INTERVAL = 200;
+const READ_CHUNK_SIZE = 64 * 1024;
+
+export interface OutputTailerOptions {
+  interval?: number;
+  maxSize?: number; // truncate the file once this much has been read from it
+}
+
+// Opens an empty file for a detached process to append its output to; close
+// it once spawned. O_APPEND keeps the process's writes at the end of the file
+// even after the tailer truncates it.
+export async function openOutputFile(filePath: string): Promise<FileHandle> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  return open(filePath, constants.O_WRONLY | constants.O_CREAT | constants.O_APPEND | constants.O_TRUNC, 0o600);
+}
+
+// Follows a file another process writes to, handing new bytes to onData.
+// Everything read has been passed on, so the file is truncated once it grows
+// past maxSize and when tailing stops; bytes written between the last read
+// and the truncation are lost.
+export class OutputTailer {
+  private offset = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private reading: Promise<void> | null = null;
+  private options: OutputTailerOptions;
+
+  constructor(private filePath: string, private onData: (chunk: Buffer) => void, options: OutputTailerOptions = {}) {
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.poll(), this.options.interval ?? POLL_INTERVAL);
+  }
+
+  // Reads whatever is left, then truncates the file
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.reading;
+    try {
+      await this.readNew();
+      await this.truncate();
+    } catch (error) {
+      log.debug('Failed to drain output file', { filePath: this.filePath, error: error as Error });
+    }
+  }
+
+  private poll(): void {
+    if (this.reading) {
+      return;
+    }
+
+    this.reading = this.readNew()
+      .catch((error) => {
+        log.debug('Failed to read output file', { filePath: this.filePath, error: error as Error });
+      })
+      .finally(() => {
+        this.reading = null;
+      });
+  }
+
+  private async readNew(): Promise<void> {
+    let handle;
+    try {
+      handle = await open(this.filePath, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size < this.offset) {
+        this.offset = 0; // truncated by someone else
+      }
+
+      while (this.offset < size) {
+        const buffer = Buffer.alloc(Math.min(size - this.offset, READ_CHUNK_SIZE));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, this.offset);
+        if (bytesRead === 0) {
+          break;
+        }
+        this.offset += bytesRead;
+        this.onData(buffer.subarray(0, bytesRead));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    if (this.options.maxSize && this.offset >= this.options.maxSize) {
+      await this.truncate();
+    }
+  }
+
+  private async truncate(): Promise<void> {
+    try {
+      await truncate(this.filePath, 0);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    this.offset = 0;
+  }
+}
@@ -0,0 +1,133 @@
+import { execFile } from 'child_process';
+import { readdir, readFile, readlink } from 'fs/promises';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('PortDetection');
+
+// Only lines that announce a server are considered, so a frontend printing
+// its backend's URL is not mistaken for the frontend's own port
+const BANNER_HINT = /\b(local|listening|listen|running|serving|started|ready|available|server|bound)\b/i;
+const CONFLICT_HINT = /EADDRINUSE|already in use/i;
+
+const PORT_PATTERNS = [
+  // Local: http://localhost:5173/, Running on http://127.0.0.1:5000
+  /\bhttps?:\/\/(?:localhost|\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-f:]*\]):(\d{2,5})\b/gi,
+  // Listening on :8080, bound to 0.0.0.0:3000
+  /(?:^|[\s(=@])(?:localhost|\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-f:]*\]|\*)?:(\d{2,5})\b/gi,
+  // listening on port 3000, port: 3000
+  /\bport\s*[:=]?\s*(\d{2,5})\b/gi,
+];
+
+const TCP_LISTEN_STATE = '0A';
+
+function isValidPort(port: number): boolean {
+  return port > 0 && port <= 65535;
+}
+
+// Ports announced by a startup banner in a single line of output
+export function detectPortsInLine(line: string): number[] {
+  if (!BANNER_HINT.test(line) || CONFLICT_HINT.test(line)) {
+    return [];
+  }
+
+  const ports = new Set<number>();
+  for (const pattern of PORT_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      const port = parseInt(match[1]!, 10);
+      if (isValidPort(port)) {
+        ports.add(port);
+      }
+    }
+  }
+  return [...ports];
+}
+
+// Maps socket inodes to ports for listening sockets in /proc/net/tcp{,6}.
+// Lines are "sl local_address rem_address st ... inode" with hex addresses.
+export function parseProcNetTcp(content: string): Map<string, number> {
+  const listening = new Map<string, number>();
+
+  for (const line of content.split('\n').slice(1)) {
+    const fields = line.trim().split(/\s+/);
+    const localAddress = fields[1];
+    if (!localAddress || fields[3] !== TCP_LISTEN_STATE || !fields[9]) {
+      continue;
+    }
+
+    const port = parseInt(localAddress.slice(localAddress.lastIndexOf(':') + 1), 16);
+    if (isValidPort(port)) {
+      listening.set(fields[9], port);
+    }
+  }
+
+  return listening;
+}
+
+async function findListeningPortsFromProc(pids: number[]): Promise<number[]> {
+  const listening = new Map<string, number>();
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    try {
+      parseProcNetTcp(await readFile(file, 'utf-8')).forEach((port, inode) => listening.set(inode, port));
+    } catch (error) {
+      // tcp6 is missing when IPv6 is disabled
+    }
+  }
+
+  const ports = new Set<number>();
+  for (const pid of pids) {
+    let fds: string[];
+    try {
+      fds = await readdir(`/proc/${pid}/fd`);
+    } catch (error) {
+      continue; // exited, or owned by another user
+    }
+
+    for (const fd of fds) {
+      const target = await readlink(`/proc/${pid}/fd/${fd}`).catch(() => '');
+      const inode = target.match(/^socket:\[(\d+)\]$/)?.[1];
+      const port = inode ? listening.get(inode) : undefined;
+      if (port) {
+        ports.add(port);
+      }
+    }
+  }
+
+  return [...ports];
+}
+
+function findListeningPortsWithLsof(pids: number[]): Promise<number[] | null> {
+  return new Promise((resolve) => {
+    execFile('lsof', ['-nP', '-a', '-p', pids.join(','), '-iTCP', '-sTCP:LISTEN', '-Fn'], (error, stdout) => {
+      // lsof exits 1 when nothing matched; a missing binary means we cannot tell
+      if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        log.debug('lsof not available for port detection');
+        resolve(null);
+        return;
+      }
+
+      const ports = new Set<number>();
+      for (const line of stdout.split('\n')) {
+        if (line.startsWith('n')) {
+          const port = parseInt(line.slice(line.lastIndexOf(':') + 1), 10);
+          if (isValidPort(port)) {
+            ports.add(port);
+          }
+        }
+      }
+      resolve([...ports]);
+    });
+  });
+}
+
+// TCP ports the given processes listen on, sorted; null when the platform
+// offers no way to find out
+export async function findListeningPorts(pids: number[]): Promise<number[] | null> {
+  if (pids.length === 0) {
+    return [];
+  }
+
+  const ports = process.platform === 'linux'
+    ? await findListeningPortsFromProc(pids)
+    : await findListeningPortsWithLsof(pids);
+  return ports && ports.sort((a, b) => a - b);
+}
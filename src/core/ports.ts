@@ -0,0 +1,74 @@
+import net from 'net';
+import { execFile } from 'child_process';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('Ports');
+
+const MAX_PORT = 65535;
+const PORT_POLL_INTERVAL = 100;
+
+export interface PortOwner {
+  pid: number;
+  command: string;
+}
+
+function canListen(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.unref();
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      // Only a taken port counts; e.g. a missing IPv6 stack says nothing about it
+      resolve(error.code !== 'EADDRINUSE');
+    });
+    server.listen({ port, ...(host && { host }), exclusive: true }, () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
+
+// A server bound to 127.0.0.1 does not always block the wildcard address
+// (notably on macOS), so both are tried
+export async function isPortInUse(port: number): Promise<boolean> {
+  return !(await canListen(port)) || !(await canListen(port, '127.0.0.1'));
+}
+
+export async function findFreePort(start: number, maxAttempts = 100): Promise<number | null> {
+  const end = Math.min(start + maxAttempts, MAX_PORT + 1);
+  for (let port = start; port < end; port++) {
+    if (!(await isPortInUse(port))) {
+      return port;
+    }
+  }
+  return null;
+}
+
+export async function waitForPortFree(port: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (await isPortInUse(port)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, PORT_POLL_INTERVAL));
+  }
+  return true;
+}
+
+// Finds the process listening on the port with lsof; null when nothing is
+// listening or lsof is unavailable
+export function getPortOwner(port: number): Promise<PortOwner | null> {
+  return new Promise((resolve) => {
+    execFile('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-Fpc'], (error, stdout) => {
+      if (error && !stdout) {
+        log.debug('Could not get process info for port', { port, error });
+        resolve(null);
+        return;
+      }
+
+      // Field output: one 'p<pid>' line followed by its 'c<command>' line
+      const lines = stdout.split('\n');
+      const pid = parseInt(lines.find(line => line.startsWith('p'))?.slice(1) ?? '', 10);
+      const command = lines.find(line => line.startsWith('c'))?.slice(1) ?? 'unknown';
+      resolve(isNaN(pid) ? null : { pid, command });
+    });
+  });
+}
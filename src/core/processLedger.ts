@@ -0,0 +1,103 @@
+import path from 'path';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { createServiceLogger } from '../shared/logger';
+import { getProcessCommand, getProcessStartTime, isProcessAlive } from './processTree';
+
+const log = createServiceLogger('ProcessLedger');
+
+export interface LedgerEntry {
+  serviceId: string;
+  servicePath: string;
+  pid: number;
+  command: string; // as spawned, after reference expansion
+  processStartTime: number | null; // from getProcessStartTime, to detect pid reuse
+  startedAt: string;
+  port?: number; // when a port conflict moved the service off its configured port
+  detached?: boolean; // writes its output to files, so capture can resume
+}
+
+export type LedgerCheck = 'running' | 'exited' | 'replaced';
+
+// The spawned shell usually execs the command, so the process shows either
+// "sh -c <command>" or the command itself; arguments may be quoted
+// differently, so only the program name has to match in the latter case
+export function commandMatches(actual: string, command: string): boolean {
+  if (actual.includes(command)) {
+    return true;
+  }
+
+  const program = (value: string) => path.basename(value.trim().split(/\s+/)[0] ?? '');
+  return program(actual) !== '' && program(actual) === program(command);
+}
+
+// Whether the recorded process is still the one Runbar started
+export async function checkLedgerEntry(entry: LedgerEntry): Promise<LedgerCheck> {
+  if (!(await isProcessAlive(entry.pid))) {
+    return 'exited';
+  }
+
+  const startTime = await getProcessStartTime(entry.pid);
+  if (entry.processStartTime !== null && startTime !== entry.processStartTime) {
+    return 'replaced';
+  }
+
+  const actual = await getProcessCommand(entry.pid);
+  return actual !== null && commandMatches(actual, entry.command) ? 'running' : 'replaced';
+}
+
+// The services Runbar has running, persisted as JSON in the config directory
+// so the next session can reattach to processes that outlived this one.
+// Writes are queued so concurrent starts and stops cannot lose entries.
+export class ProcessLedger {
+  private filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async read(): Promise<LedgerEntry[]> {
+    try {
+      const entries = JSON.parse(await readFile(this.filePath, 'utf-8')) as unknown;
+      return Array.isArray(entries) ? (entries as LedgerEntry[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('Ignoring unreadable process ledger', { filePath: this.filePath, error: error as Error });
+      }
+      return [];
+    }
+  }
+
+  record(entry: LedgerEntry): Promise<void> {
+    return this.update(entries => [...entries.filter(e => e.serviceId !== entry.serviceId), entry]);
+  }
+
+  // With a pid, only that process's entry goes, so a late exit of a replaced
+  // process cannot drop the entry of the one that succeeded it
+  remove(serviceId: string, pid?: number): Promise<void> {
+    return this.update(entries => entries.filter(e => e.serviceId !== serviceId || (pid !== undefined && e.pid !== pid)));
+  }
+
+  // Resolves once every queued write is on disk
+  flush(): Promise<void> {
+    return this.queue.then(() => undefined);
+  }
+
+  private update(change: (entries: LedgerEntry[]) => LedgerEntry[]): Promise<void> {
+    const result = this.queue.then(async () => {
+      const entries = await this.read();
+      const updated = change(entries);
+      if (updated.length === entries.length && updated.every((entry, index) => entry === entries[index])) {
+        return;
+      }
+
+      // Write then rename so a crash mid-write cannot leave a truncated file
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(updated, null, 2), { mode: 0o600 });
+      await rename(tempPath, this.filePath);
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
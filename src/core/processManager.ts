@@ -1,29 +1,130 @@
-import { spawn, ChildProcess, execSync } from 'child_process';
-import { dialog } from 'electron';
-import type { Service, ServiceStatus, ProcessInfo, ProcessManagerOptions } from '../shared/types';
+import { spawn, ChildProcess } from 'child_process';
+import type {
+  Service,
+  Group,
+  GroupServiceResult,
+  ServiceStatus,
+  HealthState,
+  ProcessInfo,
+  ProcessManagerOptions,
+  ProcessExit,
+  RestartPolicy,
+  LogEntry,
+  LogQuery,
+  LogStream,
+  PromptOptions,
+  PortConflictPolicy,
+  ResourceSample,
+} from '../shared/types';
+import { ServiceError } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
 import { eventBus } from '../shared/events';
+import { config } from '../shared/config';
+import { getProcessTree, findSurvivors, signalProcessTree, supportsProcessGroups, isProcessAlive, getProcessStartTime } from './processTree';
+import type { ProcessEntry } from './processTree';
+import { resolveHealthCheck, runProbe, validateHealthCheck } from './healthCheck';
+import { withDependencies, assertNoDependencyCycle, getDependents } from './dependencyGraph';
+import { resolveServiceEnvironment } from './environment';
+import { LogStore } from './logStore';
+import { LineSplitter } from './lineSplitter';
+import { isPortInUse, findFreePort, waitForPortFree, getPortOwner } from './ports';
+import { hasServiceReferences, expandServiceReferences } from './serviceReferences';
+import { detectPortsInLine, findListeningPorts } from './portDetection';
+import { ResourceSampler, formatBytes } from './resourceMonitor';
+import { ProcessLedger, checkLedgerEntry, type LedgerEntry } from './processLedger';
+import { OutputTailer, openOutputFile } from './outputTailer';
+import type { PortOwner } from './ports';
 
 const log = createServiceLogger('ProcessManager');
 
 interface ManagedProcess {
+  service: Service;
   process: ChildProcess | null;
   info: ProcessInfo;
+  readinessPattern?: RegExp;
+  portConflictHandled?: boolean; // output often repeats EADDRINUSE; act on it once
+  sampler?: ResourceSampler;
+  reattached?: boolean; // started by an earlier session; only its pid is known
+  detached?: boolean; // outlives Runbar; output is tailed from files
+  stopTailing?: () => Promise<void>; // drains the output files of a detached process
+  memoryAlerted?: boolean; // alert once per crossing of the threshold
+}
+
+type PortResolution = { adopted: true } | { adopted: false; port: number };
+
+// Buttons for a process left behind by a service that no longer exists
+const ORPHAN_CHOICES = ['Leave Running', 'Stop'];
+
+// Prompt buttons, in order, and the policy each one applies
+const PORT_CONFLICT_CHOICES: [string, PortConflictPolicy][] = [
+  ['Cancel', 'fail'],
+  ['Mark as Running', 'adopt'],
+  ['Kill Process and Start', 'kill-and-restart'],
+  ['Use Next Free Port', 'pick-next-free-port'],
+];
+
+// Survives individual process instances so backoff and crash-loop detection
+// span consecutive restarts
+interface RestartState {
+  attempts: number;
+  crashes: number[]; // timestamps of recent unexpected exits
+  timer: NodeJS.Timeout | null;
+}
+
+const EXIT_POLL_INTERVAL = 100;
+
+// Resolves with the promise's value, or null if it rejects or does not settle
+// within the timeout
+function waitFor<T>(promise: Promise<T>, timeoutMs: number): Promise<T | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), timeoutMs);
+    promise
+      .catch(() => null)
+      .then((value) => {
+        clearTimeout(timer);
+        resolve(value);
+      });
+  });
+}
+
+// Polls until every process in the tree is gone or the timeout elapses
+async function waitForTreeExit(tree: ProcessEntry[], timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while ((await findSurvivors(tree)).length > 0) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await new Promise(resolve => setTimeout(resolve, EXIT_POLL_INTERVAL));
+  }
+  return true;
 }
 
 export interface ProcessManagerInterface {
   startService(service: Service): Promise<boolean>;
   stopService(service: Service): Promise<boolean>;
-  getServiceStatus(servicePath: string): ServiceStatus;
-  getServiceLogs(servicePath: string): string[];
+  restartService(service: Service): Promise<boolean>;
+  getServiceStatus(serviceId: string): ServiceStatus;
+  getServiceHealth(serviceId: string): HealthState;
+  getServicePorts(serviceId: string): number[];
+  getServiceResources(serviceId: string): ResourceSample[];
+  getServiceLogs(serviceId: string): LogEntry[];
+  readLogs(serviceId: string, query?: LogQuery): Promise<LogEntry[]>;
+  waitForReady(serviceId: string): Promise<boolean>;
+  startGroup(group: Group, allServices: Service[]): Promise<GroupServiceResult[]>;
+  stopGroup(group: Group, allServices: Service[]): Promise<GroupServiceResult[]>;
   stopAllServices(): Promise<void>;
   getRunningServices(): string[];
+  reattachServices(services: Service[]): Promise<void>;
 }
 
 export class ProcessManager implements ProcessManagerInterface {
   private processes: Map<string, ManagedProcess> = new Map();
+  private restartStates: Map<string, RestartState> = new Map();
   private options: ProcessManagerOptions;
   private statusPollingInterval: NodeJS.Timeout | null = null;
+  private logStore: LogStore;
+  private ledger: ProcessLedger | null;
+  private promptQueue: Promise<unknown> = Promise.resolve();
 
   constructor(options: ProcessManagerOptions = {}) {
     this.options = {
@@ -32,17 +133,28 @@ export class ProcessManager implements ProcessManagerInterface {
       gracefulShutdownTimeout: 5000,
       ...options,
     };
+    this.logStore = new LogStore(this.options.logDir ?? config.getLogDir());
+    this.ledger = this.options.ledgerPath ? new ProcessLedger(this.options.ledgerPath) : null;
 
     this.startStatusPolling();
   }
 
   async startService(service: Service): Promise<boolean> {
+    return this.launch(service);
+  }
+
+  // Starts the service, on portOverride instead of its configured port when
+  // a conflict was resolved by moving it
+  private async launch(service: Service, portOverride?: number): Promise<boolean> {
     try {
-      if (this.processes.has(service.path)) {
+      const currentStatus = this.getServiceStatus(service.id);
+      if (this.processes.has(service.id) && currentStatus !== 'stopped' && currentStatus !== 'error') {
         log.info('Service already running', { service: service.name });
         return false;
       }
 
+      this.cancelPendingRestart(service.id);
+
       const command = typeof service.command === 'string' ? service.command : '';
       if (!command.trim()) {
         log.warn('No start command specified', { service: service.name });
@@ -55,22 +167,64 @@ export class ProcessManager implements ProcessManagerInterface {
         logLimit: this.options.logStorageLimit 
       });
 
+      if (service.healthCheck) {
+        const problem = validateHealthCheck(service, service.healthCheck);
+        if (problem) {
+          throw new ServiceError(problem, service, { healthCheck: service.healthCheck });
+        }
+      }
+
+      const logs: LogEntry[] = [];
+      let port = portOverride ?? service.port;
+      if (port && await isPortInUse(port)) {
+        const resolution = await this.resolvePortConflict(service, port, logs);
+        if (resolution.adopted) {
+          return true;
+        }
+        port = resolution.port;
+      }
+      const target: Service = port === service.port ? service : { ...service, ...(port && { port }) };
+
       const cwd = service.path || process.cwd();
-      const child: ChildProcess = spawn(command, [], { cwd, shell: true });
+      const { env, warnings } = await resolveServiceEnvironment(target);
+      const expandedCommand = await this.expandReferences(target, command, env);
+      // A dedicated process group lets us signal the shell wrapper and everything it spawned
+      const child: ChildProcess = service.detached
+        ? await this.spawnDetached(target, expandedCommand, cwd, env)
+        : spawn(expandedCommand, [], { cwd, env, shell: true, detached: supportsProcessGroups });
       
-      const logs: string[] = [];
-      const info: ProcessInfo = {
-        pid: child.pid ?? -1,
-        status: 'running',
-        startTime: new Date(),
-        logs,
+      const managed: ManagedProcess = {
+        service: target,
+        process: child,
+        ...(service.detached && { detached: true }),
+        info: {
+          pid: child.pid ?? -1,
+          status: service.healthCheck ? 'starting' : 'running',
+          health: 'unknown',
+          startTime: new Date(),
+          logs,
+        },
+        ...(service.healthCheck?.type === 'log' && {
+          readinessPattern: new RegExp(service.healthCheck.pattern!),
+        }),
       };
 
-      this.setupProcessEventHandlers(child, service, logs, info);
-      this.processes.set(service.path, { process: child, info });
+      this.setupProcessEventHandlers(child, managed);
+      if (managed.detached) {
+        this.startTailing(managed);
+      }
+      this.processes.set(service.id, managed);
+      await this.recordInLedger(managed, expandedCommand);
+      warnings.forEach(warning => this.appendLog(service, managed.info.logs, `Warning: ${warning}`));
 
-      eventBus.emitServiceStarted(service);
-      log.info('Service started successfully', { service: service.name, pid: child.pid });
+      if (service.healthCheck) {
+        log.info('Service spawned, waiting for readiness', { service: service.name, pid: child.pid });
+        this.notifyStatusChange(service.path, 'starting');
+        this.awaitReadiness(managed);
+      } else {
+        eventBus.emitServiceStarted(target);
+        log.info('Service started successfully', { service: service.name, pid: child.pid });
+      }
 
       return true;
     } catch (error) {
@@ -80,57 +234,298 @@ export class ProcessManager implements ProcessManagerInterface {
     }
   }
 
-  private setupProcessEventHandlers(
-    child: ChildProcess,
-    service: Service,
-    logs: string[],
-    info: ProcessInfo
-  ): void {
-    const emitLog = (line: string) => {
-      logs.push(line);
-      if (logs.length > (this.options.logStorageLimit || 100)) {
-        logs.shift();
-      }
+  // Expands ${services.<name>.port|url} in the command and, in place, in env
+  private async expandReferences(service: Service, command: string, env: Record<string, string>): Promise<string> {
+    if (!hasServiceReferences(command) && !Object.values(env).some(hasServiceReferences)) {
+      return command;
+    }
+
+    const services = await this.getServicesWithActivePorts();
+    for (const [key, value] of Object.entries(env)) {
+      env[key] = expandServiceReferences(value, services, service, `env ${key}`);
+    }
+    return expandServiceReferences(command, services, service, 'command');
+  }
 
-      // Emit log update event
-      eventBus.emitServiceLogUpdate(service, line);
+  // Configured services, with running instances' ports taking precedence
+  // (they differ when a port conflict moved a service)
+  private async getServicesWithActivePorts(): Promise<Service[]> {
+    const configured = (await this.options.storageService?.getServices()) ?? [];
+    const active = [...this.processes.values()]
+      .filter(managed => managed.info.status === 'running' || managed.info.status === 'starting')
+      .map(managed => {
+        const detected = managed.info.ports?.[0];
+        return managed.service.port || !detected ? managed.service : { ...managed.service, port: detected };
+      });
 
-      // Check for port-in-use errors
-      this.handlePortInUseError(line, service, logs);
-    };
+    return [
+      ...active,
+      ...configured.filter(service => !active.some(running => running.id === service.id)),
+    ];
+  }
 
-    child.stdout?.on('data', (data: Buffer) => {
-      emitLog(data.toString());
-    });
+  // Output goes straight to files, so the service neither dies with Runbar's
+  // pipes nor loses what it prints while Runbar is not running
+  private async spawnDetached(service: Service, command: string, cwd: string, env: Record<string, string>): Promise<ChildProcess> {
+    const stdout = await openOutputFile(this.logStore.getOutputPath(service.id, 'stdout'));
+    const stderr = await openOutputFile(this.logStore.getOutputPath(service.id, 'stderr'));
+    try {
+      const child = spawn(command, [], { cwd, env, shell: true, detached: true, stdio: ['ignore', stdout.fd, stderr.fd] });
+      child.unref();
+      return child;
+    } finally {
+      await stdout.close();
+      await stderr.close();
+    }
+  }
 
-    child.stderr?.on('data', (data: Buffer) => {
-      emitLog(data.toString());
+  private startTailing(managed: ManagedProcess): void {
+    const streams = (['stdout', 'stderr'] as const).map((stream) => {
+      const splitter = new LineSplitter(line => this.handleOutputLine(managed, line, stream));
+      const tailer = new OutputTailer(
+        this.logStore.getOutputPath(managed.service.id, stream),
+        chunk => splitter.write(chunk),
+        { maxSize: config.defaults.logPersistence.maxFileSize }
+      );
+      tailer.start();
+      return { tailer, splitter };
     });
 
-    child.on('exit', (code: number | null) => {
+    let stopped: Promise<void> | null = null;
+    managed.stopTailing = () => {
+      stopped ??= Promise.all(streams.map(async ({ tailer, splitter }) => {
+        await tailer.stop();
+        splitter.end();
+      })).then(() => undefined);
+      return stopped;
+    };
+  }
+
+  private handleOutputLine(managed: ManagedProcess, line: string, stream: LogStream): void {
+    const { service, info } = managed;
+    this.appendLog(service, info.logs, line, stream);
+
+    if (info.status === 'starting' && managed.readinessPattern?.test(line)) {
+      this.markReady(managed);
+    }
+
+    const ports = detectPortsInLine(line);
+    if (ports.length > 0) {
+      this.recordPorts(managed, ports);
+    }
+
+    // Check for port-in-use errors
+    this.handlePortInUseError(line, managed);
+  }
+
+  private setupProcessEventHandlers(child: ChildProcess, managed: ManagedProcess): void {
+    const { service, info } = managed;
+    const logs = info.logs;
+
+    const stdout = new LineSplitter(line => this.handleOutputLine(managed, line, 'stdout'));
+    const stderr = new LineSplitter(line => this.handleOutputLine(managed, line, 'stderr'));
+
+    child.stdout?.on('data', (data: Buffer) => stdout.write(data));
+    child.stdout?.on('end', () => stdout.end());
+    child.stderr?.on('data', (data: Buffer) => stderr.write(data));
+    child.stderr?.on('end', () => stderr.end());
+
+    child.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+      const wasStopping = info.status === 'stopping';
       info.status = 'stopped';
-      info.exitCode = code || -1;
-      emitLog(`Process exited with code ${code}`);
-      
-      eventBus.emitServiceStopped(service);
-      log.info('Service stopped', { service: service.name, exitCode: code });
+      if (code !== null) {
+        info.exitCode = code;
+      }
+      if (signal) {
+        info.signal = signal;
+      }
+
+      // A detached process's last lines may still be in its output files
+      const drained = managed.stopTailing?.() ?? Promise.resolve();
+      drained.then(() => {
+        this.appendLog(service, logs, signal ? `Process terminated by ${signal}` : `Process exited with code ${code}`);
+        this.forgetInLedger(managed);
+
+        // stopService emits its own event once the shutdown sequence has finished
+        if (!wasStopping) {
+          eventBus.emitServiceStopped(service, { exitCode: code, signal });
+          log.info('Service stopped', { service: service.name, exitCode: code, signal });
+          this.handleUnexpectedExit(service, info, { exitCode: code, signal });
+        }
+      });
     });
 
     child.on('error', (err: Error) => {
       info.status = 'error';
       info.error = err.message;
-      emitLog(`Process error: ${err.message}`);
+      this.appendLog(service, logs, `Process error: ${err.message}`);
       
       eventBus.emitServiceError(service, err);
       log.warn('Service error', { service: service.name, error: err });
     });
   }
 
-  private async handlePortInUseError(line: string, service: Service, logs: string[]): Promise<void> {
-    if (!/EADDRINUSE|address already in use/i.test(line)) {
+  // Polls the service's health check until it passes, the service stops, or
+  // the check times out
+  private async awaitReadiness(managed: ManagedProcess): Promise<void> {
+    const check = resolveHealthCheck(managed.service.healthCheck!);
+    const deadline = managed.info.startTime.getTime() + check.timeout;
+
+    while (managed.info.status === 'starting') {
+      if (await runProbe(managed.service, check)) {
+        this.markReady(managed);
+        return;
+      }
+
+      if (Date.now() >= deadline) {
+        if (managed.info.status !== 'starting') {
+          return;
+        }
+
+        const error = new ServiceError(
+          `Service did not become ready within ${check.timeout}ms`,
+          managed.service,
+          { healthCheck: check }
+        );
+        managed.info.status = 'error';
+        managed.info.health = 'unhealthy';
+        managed.info.error = error.message;
+        this.appendLog(managed.service, managed.info.logs, `Readiness check failed: ${error.message}`);
+
+        eventBus.emitServiceError(managed.service, error);
+        this.notifyStatusChange(managed.service.path, 'error');
+        log.warn('Service readiness check timed out', { service: managed.service.name, timeout: check.timeout });
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, check.interval));
+    }
+  }
+
+  private markReady(managed: ManagedProcess): void {
+    if (managed.info.status !== 'starting') {
+      return;
+    }
+
+    managed.info.status = 'running';
+    managed.info.health = 'healthy';
+
+    eventBus.emitServiceStarted(managed.service);
+    this.notifyStatusChange(managed.service.path, 'running');
+    log.info('Service is ready', {
+      service: managed.service.name,
+      startupTime: Date.now() - managed.info.startTime.getTime(),
+    });
+  }
+
+  // Re-runs network and command probes for services that already passed
+  // readiness so the tray can show healthy vs unhealthy
+  private async recheckHealth(managed: ManagedProcess): Promise<void> {
+    const check = managed.service.healthCheck;
+    if (!check || check.type === 'log' || managed.info.status !== 'running') {
+      return;
+    }
+
+    const healthy = await runProbe(managed.service, resolveHealthCheck(check));
+    const health: HealthState = healthy ? 'healthy' : 'unhealthy';
+
+    if (managed.info.status === 'running' && managed.info.health !== health) {
+      managed.info.health = health;
+      this.appendLog(managed.service, managed.info.logs, `Health check ${healthy ? 'recovered' : 'failing'}`);
+      this.notifyStatusChange(managed.service.path, 'running');
+    }
+  }
+
+  private handleUnexpectedExit(service: Service, info: ProcessInfo, exit: ProcessExit): void {
+    const policy: Required<RestartPolicy> = {
+      ...config.defaults.restartPolicy,
+      ...service.restartPolicy,
+    };
+    const failed = exit.exitCode !== 0 || exit.signal !== null;
+
+    if (policy.mode === 'never' || (policy.mode === 'on-failure' && !failed)) {
+      return;
+    }
+
+    const now = Date.now();
+    const state = this.restartStates.get(service.id) ?? { attempts: 0, crashes: [], timer: null };
+    this.restartStates.set(service.id, state);
+
+    // A run that outlived the crash-loop window counts as healthy again
+    if (now - info.startTime.getTime() >= policy.crashLoopWindow) {
+      state.attempts = 0;
+    }
+
+    state.crashes = state.crashes.filter(time => now - time < policy.crashLoopWindow);
+    state.crashes.push(now);
+
+    if (state.crashes.length >= policy.crashLoopThreshold) {
+      info.status = 'error';
+      info.error = `Crash loop detected: ${state.crashes.length} crashes within ${policy.crashLoopWindow}ms`;
+      this.appendLog(service, info.logs, `${info.error}, not restarting`);
+      this.restartStates.delete(service.id);
+
+      eventBus.emitServiceCrashLoop(service, state.crashes.length, policy.crashLoopWindow);
+      log.warn('Service is crash looping, auto-restart disabled', {
+        service: service.name,
+        crashes: state.crashes.length,
+      });
+      return;
+    }
+
+    if (state.attempts >= policy.maxRetries) {
+      info.status = 'error';
+      info.error = `Gave up after ${state.attempts} restart attempts`;
+      this.appendLog(service, info.logs, info.error);
+      this.restartStates.delete(service.id);
+
+      log.warn('Service exceeded restart attempts', { service: service.name, attempts: state.attempts });
       return;
     }
 
+    const delay = Math.min(policy.initialDelay * 2 ** state.attempts, policy.maxDelay);
+    state.attempts++;
+
+    this.appendLog(
+      service,
+      info.logs,
+      `Restarting in ${delay}ms (attempt ${state.attempts}/${policy.maxRetries})`
+    );
+    eventBus.emitServiceRestarting(service, state.attempts, delay, exit);
+    log.info('Scheduling service restart', { service: service.name, attempt: state.attempts, delay });
+
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.startService(service);
+    }, delay);
+  }
+
+  private cancelPendingRestart(serviceId: string): void {
+    const state = this.restartStates.get(serviceId);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+
+  // Keeps a short tail in memory for the tray and persists everything to disk
+  private appendLog(service: Service, logs: LogEntry[], text: string, stream: LogStream = 'system'): void {
+    const entry: LogEntry = { timestamp: new Date(), stream, text };
+    logs.push(entry);
+    if (logs.length > (this.options.logStorageLimit || 100)) {
+      logs.shift();
+    }
+    this.logStore.append(service.id, entry);
+
+    eventBus.emitServiceLogUpdate(service, entry);
+  }
+
+  private async handlePortInUseError(line: string, managed: ManagedProcess): Promise<void> {
+    if (managed.portConflictHandled || !/EADDRINUSE|address already in use/i.test(line)) {
+      return;
+    }
+    managed.portConflictHandled = true;
+
     const portMatch =
       line.match(/EADDRINUSE.*(?:port |:)(\d{2,5})/i) ||
       line.match(/address already in use.*(?:port |:)(\d{2,5})/i) ||
@@ -138,103 +533,320 @@ export class ProcessManager implements ProcessManagerInterface {
       line.match(/port (\d{2,5}) is already in use/i);
 
     const port = portMatch && portMatch[1] ? parseInt(portMatch[1], 10) : null;
-    
+    const { service, info } = managed;
+    if (!port) {
+      this.appendLog(service, info.logs, 'Port conflict reported, but the port could not be determined from the output');
+      return;
+    }
+
     try {
-      const processInfo = port ? await this.getProcessUsingPort(port) : null;
-      await this.showPortInUseDialog(service, port, processInfo, logs);
+      const resolution = await this.resolvePortConflict(service, port, info.logs);
+      if (resolution.adopted) {
+        return;
+      }
+
+      // Replace the failing process with one on the freed or newly picked port
+      const status = this.getServiceStatus(service.id);
+      if (this.processes.get(service.id) === managed && status !== 'stopped' && status !== 'error') {
+        await this.stopService(service);
+      }
+      await this.launch(service, resolution.port);
     } catch (error) {
-      log.warn('Error handling port in use', { service: service.name, port, error: error as Error });
+      log.warn('Port conflict not resolved', { service: service.name, port, error: error as Error });
+      eventBus.emitServiceError(service, error as Error);
     }
   }
 
-  private async getProcessUsingPort(port: number): Promise<{ pid: string; command: string } | null> {
-    try {
-      const lsofOut = execSync(
-        `lsof -i :${port} -sTCP:LISTEN -Pn | awk 'NR>1 {print $2, $1}'`
-      ).toString().trim();
+  // Applies the service's onPortConflict policy. Throws a ServiceError when
+  // the service should not start.
+  private async resolvePortConflict(service: Service, port: number, logs: LogEntry[]): Promise<PortResolution> {
+    const owner = await getPortOwner(port);
+    const ownerText = owner ? `${owner.command} (PID ${owner.pid})` : 'another process';
+    this.appendLog(service, logs, `Port ${port} is already in use by ${ownerText}`);
+
+    const policy = service.onPortConflict ?? 'prompt';
+    const action = policy === 'prompt' ? await this.promptPortConflict(service, port, owner) : policy;
+    log.info('Resolving port conflict', { service: service.name, port, policy, action, owner });
+
+    const otherService = owner && await this.findServiceOwningProcess(owner.pid, service.id);
+    if (otherService && (action === 'adopt' || action === 'kill-and-restart')) {
+      throw new ServiceError(
+        `Port ${port} is used by service '${otherService.service.name}'`,
+        service,
+        { port, owner }
+      );
+    }
+
+    switch (action) {
+      case 'adopt':
+        this.adoptPortOwner(service, port, owner, logs);
+        return { adopted: true };
+
+      case 'kill-and-restart': {
+        if (!owner) {
+          throw new ServiceError(`Port ${port} is in use, but the process holding it could not be found`, service, { port });
+        }
+        await this.killPortOwner(service, port, owner, logs);
+        if (!(await waitForPortFree(port, this.options.gracefulShutdownTimeout ?? 5000))) {
+          throw new ServiceError(`Port ${port} is still in use after killing PID ${owner.pid}`, service, { port, owner });
+        }
+        return { adopted: false, port };
+      }
 
-      if (lsofOut) {
-        const [pid, command] = lsofOut.split(' ');
-        return { pid: pid!, command: command! };
+      case 'pick-next-free-port': {
+        const freePort = await findFreePort(port + 1);
+        if (!freePort) {
+          throw new ServiceError(`No free port found after ${port}`, service, { port });
+        }
+        this.appendLog(service, logs, `Starting on port ${freePort} instead (PORT=${freePort})`);
+        return { adopted: false, port: freePort };
       }
-    } catch (error) {
-      log.debug('Could not get process info for port', { port, error: error as Error });
+
+      default:
+        throw new ServiceError(`Port ${port} is already in use by ${ownerText}`, service, { port, owner });
     }
+  }
 
-    return null;
+  // The port is usually held by a child or grandchild of the service's own
+  // process (npm -> sh -> node), so each service's whole tree is searched
+  private async findServiceOwningProcess(pid: number, excludeServiceId: string): Promise<ManagedProcess | undefined> {
+    for (const managed of this.processes.values()) {
+      if (managed.service.id === excludeServiceId || managed.info.pid <= 0) {
+        continue;
+      }
+      if (managed.info.pid === pid || (await getProcessTree(managed.info.pid)).some(entry => entry.pid === pid)) {
+        return managed;
+      }
+    }
+    return undefined;
   }
 
-  private async showPortInUseDialog(
-    service: Service,
-    port: number | null,
-    processInfo: { pid: string; command: string } | null,
-    logs: string[]
-  ): Promise<void> {
-    const dialogOptions = {
-      type: 'error' as const,
-      buttons: ['Ignore', 'Mark as Running', 'Kill Process and Start'],
+  private async promptPortConflict(service: Service, port: number, owner: PortOwner | null): Promise<PortConflictPolicy> {
+    let message = `Service '${service.name}' cannot start: Port ${port} is already in use.`;
+    if (owner) {
+      message += `\nProcess: PID ${owner.pid}, Command: ${owner.command}`;
+    }
+
+    const choice = await this.prompt({
+      type: 'error',
+      buttons: PORT_CONFLICT_CHOICES.map(([label]) => label),
       defaultId: 0,
       cancelId: 0,
-      title: 'Port In Use Error',
-      message: port
-        ? `Service '${service.name}' failed to start: Port ${port} is already in use.`
-        : `Service '${service.name}' failed to start due to a port conflict, but the port could not be determined from the error message. Please check your logs or configuration.`,
+      title: 'Port In Use',
+      message,
+    });
+    return PORT_CONFLICT_CHOICES[choice]?.[1] ?? 'fail';
+  }
+
+  // Tracks the process already on the port as this service; stopping the
+  // service stops that process
+  private adoptPortOwner(service: Service, port: number, owner: PortOwner | null, logs: LogEntry[]): void {
+    const managed: ManagedProcess = {
+      service,
+      process: null,
+      info: {
+        pid: owner?.pid ?? -1,
+        status: 'running',
+        health: 'unknown',
+        startTime: new Date(),
+        logs: [...logs],
+      },
     };
+    this.processes.set(service.id, managed);
+    this.appendLog(service, managed.info.logs, `Adopted running process PID ${owner?.pid ?? '?'} on port ${port}`);
+    eventBus.emitServiceStarted(service);
+  }
+
+  private async killPortOwner(service: Service, port: number, owner: PortOwner, logs: LogEntry[]): Promise<void> {
+    const { signal } = await this.terminate({
+      service,
+      process: null,
+      info: { pid: owner.pid, status: 'stopping', health: 'unknown', startTime: new Date(), logs },
+    });
+    this.appendLog(service, logs, `Killed ${owner.command} (PID ${owner.pid}) on port ${port} with ${signal}`);
+  }
 
-    if (processInfo) {
-      dialogOptions.message += `\nProcess: PID ${processInfo.pid}, Command: ${processInfo.command}`;
+  private async recordInLedger(managed: ManagedProcess, command: string): Promise<void> {
+    const { service, info } = managed;
+    if (!this.ledger || info.pid <= 0) {
+      return;
+    }
+
+    try {
+      await this.ledger.record({
+        serviceId: service.id,
+        servicePath: service.path,
+        pid: info.pid,
+        command,
+        processStartTime: await getProcessStartTime(info.pid),
+        startedAt: info.startTime.toISOString(),
+        ...(service.port && { port: service.port }),
+        ...(managed.detached && { detached: true }),
+      });
+    } catch (error) {
+      log.warn('Failed to record process in ledger', { service: service.name, error: error as Error });
     }
+  }
+
+  private forgetInLedger(managed: ManagedProcess): void {
+    this.ledger?.remove(managed.service.id, managed.info.pid).catch((error) => {
+      log.warn('Failed to update process ledger', { service: managed.service.name, error: error as Error });
+    });
+  }
 
-    const result = await dialog.showMessageBox(dialogOptions);
+  // Picks up services an earlier session started that are still running:
+  // each is verified to be the same process (not a reused pid), shown as
+  // running with its persisted log history, and watched until it exits.
+  // Processes whose service no longer exists are offered to be stopped.
+  async reattachServices(services: Service[]): Promise<void> {
+    if (!this.ledger) {
+      return;
+    }
 
-    switch (result.response) {
-      case 1: // Mark as Running
-        this.processes.set(service.path, {
-          process: null,
-          info: {
-            pid: processInfo ? parseInt(processInfo.pid, 10) : -1,
-            status: 'running',
-            startTime: new Date(),
-            logs: [...logs, `Adopted running process PID ${processInfo?.pid || '?'}${port ? ` on port ${port}` : ''}`],
-          },
-        });
-        eventBus.emitServiceStarted(service);
-        break;
+    for (const entry of await this.ledger.read()) {
+      try {
+        const check = await checkLedgerEntry(entry);
+        if (check !== 'running') {
+          log.info('Dropping stale ledger entry', { serviceId: entry.serviceId, pid: entry.pid, reason: check });
+          await this.ledger.remove(entry.serviceId, entry.pid);
+          continue;
+        }
 
-      case 2: // Kill Process and Start
-        if (processInfo && port) {
-          try {
-            process.kill(parseInt(processInfo.pid, 10));
-            logs.push(`Killed process PID ${processInfo.pid} on port ${port}`);
-            await this.startService(service);
-          } catch (error) {
-            logs.push(`Failed to kill process PID ${processInfo.pid}: ${error}`);
-            log.warn('Failed to kill process', { pid: processInfo.pid, error: error as Error });
-          }
+        const service = services.find(s => s.id === entry.serviceId && s.path === entry.servicePath);
+        if (!service) {
+          await this.handleOrphan(entry);
+        } else if (this.processes.has(service.id)) {
+          log.warn('Service already tracked, not reattaching', { service: service.name, pid: entry.pid });
+        } else {
+          await this.reattach(service, entry);
         }
-        break;
+      } catch (error) {
+        log.warn('Failed to reattach service', { serviceId: entry.serviceId, pid: entry.pid, error: error as Error });
+      }
     }
   }
 
+  private async reattach(service: Service, entry: LedgerEntry): Promise<void> {
+    const history = await this.logStore.readLogs(service.id, { limit: this.options.logStorageLimit ?? 100 });
+    const managed: ManagedProcess = {
+      service: entry.port && entry.port !== service.port ? { ...service, port: entry.port } : service,
+      process: null,
+      reattached: true,
+      ...(entry.detached && { detached: true }),
+      info: {
+        pid: entry.pid,
+        status: 'running',
+        health: 'unknown',
+        startTime: new Date(entry.startedAt),
+        logs: history,
+      },
+    };
+
+    this.processes.set(service.id, managed);
+    // The old session's pipes closed with it, so only a detached service's
+    // output, which goes to files, can still be captured
+    if (managed.detached) {
+      this.startTailing(managed);
+    }
+    this.appendLog(
+      service,
+      managed.info.logs,
+      `Reattached to PID ${entry.pid} started ${entry.startedAt}${managed.detached ? '' : '; live output is not captured'}`
+    );
+    log.info('Reattached to running service', { service: service.name, pid: entry.pid });
+    eventBus.emitServiceStarted(managed.service);
+  }
+
+  private async handleOrphan(entry: LedgerEntry): Promise<void> {
+    const choice = await this.prompt({
+      type: 'question',
+      buttons: ORPHAN_CHOICES,
+      defaultId: 1,
+      cancelId: 0,
+      title: 'Orphaned Process',
+      message: `PID ${entry.pid} (${entry.command}) is still running from a service that no longer exists in Runbar.`,
+    });
+
+    if (ORPHAN_CHOICES[choice] === 'Stop') {
+      const orphan: Service = {
+        id: entry.serviceId,
+        name: `PID ${entry.pid}`,
+        path: entry.servicePath,
+        command: entry.command,
+        createdAt: entry.startedAt,
+        updatedAt: entry.startedAt,
+      };
+      const { signal } = await this.terminate({
+        service: orphan,
+        process: null,
+        info: { pid: entry.pid, status: 'stopping', health: 'unknown', startTime: new Date(entry.startedAt), logs: [] },
+      });
+      log.info('Stopped orphaned process', { pid: entry.pid, command: entry.command, signal });
+    } else {
+      log.info('Leaving orphaned process running', { pid: entry.pid, command: entry.command });
+    }
+
+    await this.ledger?.remove(entry.serviceId, entry.pid);
+  }
+
+  // Reattached processes are not our children, so there is no exit event;
+  // their liveness is polled instead
+  private async checkReattachedProcess(managed: ManagedProcess): Promise<void> {
+    if (await isProcessAlive(managed.info.pid)) {
+      await this.inspectProcessTree(managed);
+      return;
+    }
+
+    if (managed.info.status !== 'running' || this.processes.get(managed.service.id) !== managed) {
+      return;
+    }
+
+    managed.info.status = 'stopped';
+    await managed.stopTailing?.();
+    this.appendLog(managed.service, managed.info.logs, `Process ${managed.info.pid} exited`);
+    this.forgetInLedger(managed);
+    eventBus.emitServiceStopped(managed.service, { exitCode: null, signal: null });
+    log.info('Reattached service stopped', { service: managed.service.name, pid: managed.info.pid });
+  }
+
+  // Prompts are shown one at a time so a group start cannot stack dialogs
+  private async prompt(options: PromptOptions): Promise<number> {
+    const { prompter } = this.options;
+    if (prompter) {
+      const answer = this.promptQueue.then(() => prompter.showMessage(options));
+      this.promptQueue = answer.catch(() => undefined);
+      return answer;
+    }
+
+    const choice = options.cancelId ?? 0;
+    log.info('No prompter available, taking the default choice', {
+      title: options.title,
+      choice: options.buttons[choice],
+    });
+    return choice;
+  }
+
   async stopService(service: Service): Promise<boolean> {
     try {
-      const managed = this.processes.get(service.path);
+      const managed = this.processes.get(service.id);
       if (!managed) {
         log.info('Service not running', { service: service.name });
         return false;
       }
 
       log.info('Stopping service', { service: service.name });
+      this.cancelPendingRestart(service.id);
+      this.restartStates.delete(service.id);
       managed.info.status = 'stopping';
 
-      if (managed.process) {
-        managed.process.kill();
-      }
+      const exit = await this.terminate(managed);
+      await managed.stopTailing?.();
 
-      this.processes.delete(service.path);
-      eventBus.emitServiceStopped(service);
+      this.processes.delete(service.id);
+      this.forgetInLedger(managed);
+      eventBus.emitServiceStopped(service, exit);
       
-      log.info('Service stopped successfully', { service: service.name });
+      log.info('Service stopped successfully', { service: service.name, ...exit });
       return true;
     } catch (error) {
       log.warn('Failed to stop service', { service: service.name, error: error as Error });
@@ -242,28 +854,215 @@ export class ProcessManager implements ProcessManagerInterface {
     }
   }
 
+  async restartService(service: Service): Promise<boolean> {
+    log.info('Restarting service', { service: service.name });
+    await this.stopService(service);
+    return this.startService(service);
+  }
+
+  // Starts the group's services and their dependencies. Each service starts as
+  // soon as all of its dependencies are ready, so independent branches start
+  // in parallel.
+  async startGroup(group: Group, allServices: Service[]): Promise<GroupServiceResult[]> {
+    const members = allServices.filter(s => group.services.includes(s.id));
+    const services = withDependencies(members, allServices);
+    const byId = new Map(allServices.map(s => [s.id, s]));
+
+    try {
+      assertNoDependencyCycle(services);
+    } catch (error) {
+      const results = services.map(s => ({ service: s.id, success: false, error: (error as Error).message }));
+      log.warn('Cannot start group', { group: group.name, error: error as Error });
+      eventBus.emitGroupError(group, results);
+      return results;
+    }
+
+    log.info('Starting group', { group: group.name, services: services.map(s => s.name) });
+
+    const results = new Map<string, GroupServiceResult>();
+    const pending = new Map<string, Promise<boolean>>();
+
+    const start = (service: Service): Promise<boolean> => {
+      let promise = pending.get(service.id);
+      if (!promise) {
+        promise = this.startWhenDependenciesReady(service, byId, start)
+          .catch((error: Error) => ({ success: false, error: error.message }))
+          .then((result) => {
+            results.set(service.id, { service: service.id, ...result });
+            return result.success;
+          });
+        pending.set(service.id, promise);
+      }
+      return promise;
+    };
+
+    await Promise.all(services.map(start));
+
+    const ordered = services.map(s => results.get(s.id)!);
+    if (ordered.every(r => r.success)) {
+      eventBus.emitGroupStarted(group, ordered);
+    } else {
+      eventBus.emitGroupError(group, ordered);
+    }
+    log.info('Group start finished', { group: group.name, failed: ordered.filter(r => !r.success).length });
+
+    return ordered;
+  }
+
+  private async startWhenDependenciesReady(
+    service: Service,
+    byId: Map<string, Service>,
+    start: (service: Service) => Promise<boolean>
+  ): Promise<{ success: boolean; error?: string }> {
+    const dependencies = service.dependencies ?? [];
+    const unknown = dependencies.filter(id => !byId.has(id));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown dependency: ${unknown.join(', ')}` };
+    }
+
+    const dependencyResults = await Promise.all(dependencies.map(id => start(byId.get(id)!)));
+    const failed = dependencies.filter((_, index) => !dependencyResults[index]);
+    if (failed.length > 0) {
+      const names = failed.map(id => byId.get(id)!.name).join(', ');
+      return { success: false, error: `Dependency failed to start: ${names}` };
+    }
+
+    const status = this.getServiceStatus(service.id);
+    if (status !== 'running' && status !== 'starting') {
+      if (!(await this.startService(service))) {
+        return { success: false, error: 'Failed to start' };
+      }
+    }
+
+    if (!(await this.waitForReady(service.id))) {
+      return { success: false, error: this.processes.get(service.id)?.info.error ?? 'Service did not become ready' };
+    }
+
+    if (service.startupDelay) {
+      await new Promise(resolve => setTimeout(resolve, service.startupDelay));
+    }
+
+    return { success: true };
+  }
+
+  // Stops the group's services in reverse dependency order: a service is only
+  // stopped once everything in the group that depends on it has stopped
+  async stopGroup(group: Group, allServices: Service[]): Promise<GroupServiceResult[]> {
+    const services = allServices.filter(s => group.services.includes(s.id));
+
+    try {
+      assertNoDependencyCycle(services);
+    } catch (error) {
+      const results = services.map(s => ({ service: s.id, success: false, error: (error as Error).message }));
+      log.warn('Cannot stop group', { group: group.name, error: error as Error });
+      eventBus.emitGroupError(group, results);
+      return results;
+    }
+
+    log.info('Stopping group', { group: group.name, services: services.map(s => s.name) });
+
+    const pending = new Map<string, Promise<GroupServiceResult>>();
+    const stop = (service: Service): Promise<GroupServiceResult> => {
+      let promise = pending.get(service.id);
+      if (!promise) {
+        promise = Promise.all(getDependents(service, services).map(stop))
+          .then(async () => {
+            if (this.processes.has(service.id)) {
+              await this.stopService(service);
+            }
+            const stopped = this.getServiceStatus(service.id) === 'stopped';
+            return {
+              service: service.id,
+              success: stopped,
+              ...(!stopped && { error: 'Failed to stop' }),
+            };
+          });
+        pending.set(service.id, promise);
+      }
+      return promise;
+    };
+
+    const results = await Promise.all(services.map(stop));
+    if (results.every(r => r.success)) {
+      eventBus.emitGroupStopped(group, results);
+    } else {
+      eventBus.emitGroupError(group, results);
+    }
+
+    return results;
+  }
+
   async stopAllServices(): Promise<void> {
     log.info('Stopping all services', { count: this.processes.size });
     
-    const stopPromises = Array.from(this.processes.keys()).map(async (servicePath) => {
-      const managed = this.processes.get(servicePath);
-      if (managed?.process) {
-        try {
-          managed.process.kill();
-        } catch (error) {
-          log.warn('Error killing process', { servicePath, error: error as Error });
-        }
-      }
-    });
-
-    await Promise.all(stopPromises);
-    this.processes.clear();
+    const services = Array.from(this.processes.values()).map(managed => managed.service);
+    await Promise.all(services.map(service => this.stopService(service)));
     
     log.info('All services stopped');
   }
 
-  getServiceStatus(servicePath: string): ServiceStatus {
-    const managedProcess = this.processes.get(servicePath);
+  // Sends SIGTERM to the service's whole process tree, waits up to
+  // gracefulShutdownTimeout for it to exit, then escalates to SIGKILL
+  private async terminate(managed: ManagedProcess): Promise<ProcessExit> {
+    const timeout = this.options.gracefulShutdownTimeout ?? 5000;
+    const child = managed.process;
+    const rootPid = child?.pid ?? managed.info.pid;
+
+    if (rootPid <= 0) {
+      return { exitCode: null, signal: null };
+    }
+
+    const exited = child && child.exitCode === null && child.signalCode === null
+      ? new Promise<ProcessExit>((resolve) => {
+          child.once('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+            resolve({ exitCode: code, signal });
+          });
+        })
+      : null;
+
+    // Snapshot the tree before signalling: once the shell wrapper dies its
+    // children are reparented and can no longer be found by walking ppids
+    const tree = await getProcessTree(rootPid);
+    if (!tree.some(entry => entry.pid === rootPid)) {
+      tree.push({ pid: rootPid, ppid: 0, pgid: rootPid, command: managed.service.command });
+    }
+    let signal: NodeJS.Signals = 'SIGTERM';
+    signalProcessTree(rootPid, tree, signal);
+
+    if (!(await waitForTreeExit(tree, timeout))) {
+      log.warn('Service did not exit after SIGTERM, sending SIGKILL', {
+        service: managed.service.name,
+        timeout,
+      });
+      signal = 'SIGKILL';
+      signalProcessTree(rootPid, tree, signal);
+      await waitForTreeExit(tree, timeout);
+    }
+
+    const survivors = await findSurvivors(tree);
+    if (survivors.length > 0) {
+      const list = survivors.map(entry => `${entry.pid} (${entry.command})`).join(', ');
+      this.appendLog(
+        managed.service,
+        managed.info.logs,
+        `Warning: ${survivors.length} process(es) still running after stop: ${list}`
+      );
+      log.warn('Processes survived service stop', {
+        service: managed.service.name,
+        pids: survivors.map(entry => entry.pid),
+      });
+    }
+
+    if (!child) {
+      return { exitCode: null, signal };
+    }
+
+    const exit = exited ? await waitFor(exited, timeout) : null;
+    return exit ?? { exitCode: child.exitCode, signal: child.signalCode ?? signal };
+  }
+
+  getServiceStatus(serviceId: string): ServiceStatus {
+    const managedProcess = this.processes.get(serviceId);
     if (!managedProcess) {
       return 'stopped';
     }
@@ -273,18 +1072,68 @@ export class ProcessManager implements ProcessManagerInterface {
       return managedProcess.info.status;
     }
 
-    if (process.exitCode !== null) {
-      return 'stopped';
+    if (process.exitCode !== null || process.signalCode !== null) {
+      return managedProcess.info.status === 'error' ? 'error' : 'stopped';
+    }
+
+    return managedProcess.info.status;
+  }
+
+  getServiceHealth(serviceId: string): HealthState {
+    const managed = this.processes.get(serviceId);
+    if (!managed || this.getServiceStatus(serviceId) === 'stopped') {
+      return 'unknown';
+    }
+    return managed.info.health;
+  }
+
+  // Detected listening ports, else the port the service was started with
+  getServicePorts(serviceId: string): number[] {
+    const managed = this.processes.get(serviceId);
+    const status = this.getServiceStatus(serviceId);
+    if (!managed || (status !== 'running' && status !== 'starting')) {
+      return [];
     }
+    if (managed.info.ports?.length) {
+      return managed.info.ports;
+    }
+    return managed.service.port ? [managed.service.port] : [];
+  }
+
+  // Resolves true once the service passes its readiness check (immediately for
+  // services without one), false if it errors or stops first
+  async waitForReady(serviceId: string): Promise<boolean> {
+    for (;;) {
+      const status = this.getServiceStatus(serviceId);
+      if (status === 'running') {
+        return true;
+      }
+      if (status !== 'starting') {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, EXIT_POLL_INTERVAL));
+    }
+  }
 
-    return 'running';
+  // Recent samples, oldest first; empty once the service has stopped
+  getServiceResources(serviceId: string): ResourceSample[] {
+    const status = this.getServiceStatus(serviceId);
+    if (status !== 'running' && status !== 'starting') {
+      return [];
+    }
+    return this.processes.get(serviceId)?.info.resources ?? [];
   }
 
-  getServiceLogs(servicePath: string): string[] {
-    const managed = this.processes.get(servicePath);
+  getServiceLogs(serviceId: string): LogEntry[] {
+    const managed = this.processes.get(serviceId);
     return managed?.info.logs || [];
   }
 
+  // Reads persisted logs, including those of previous runs
+  async readLogs(serviceId: string, query: LogQuery = {}): Promise<LogEntry[]> {
+    return this.logStore.readLogs(serviceId, query);
+  }
+
   getRunningServices(): string[] {
     return Array.from(this.processes.keys()).filter(path => 
       this.getServiceStatus(path) === 'running'
@@ -293,17 +1142,19 @@ export class ProcessManager implements ProcessManagerInterface {
 
   private startStatusPolling(): void {
     this.statusPollingInterval = setInterval(() => {
-      for (const [servicePath, managed] of this.processes.entries()) {
+      const inspections: Promise<void>[] = [];
+
+      for (const [serviceId, managed] of this.processes.entries()) {
         if (managed.process && managed.info.status === 'running') {
           // Check if process has exited
           if (managed.process.exitCode !== null) {
             managed.info.status = 'stopped';
             managed.info.exitCode = managed.process.exitCode;
             log.info('Service stopped (exit code)', { 
-              servicePath, 
+              serviceId, 
               exitCode: managed.process.exitCode 
             });
-            this.notifyStatusChange(servicePath, 'stopped');
+            this.notifyStatusChange(managed.service.path, 'stopped');
             continue;
           }
 
@@ -316,26 +1167,136 @@ export class ProcessManager implements ProcessManagerInterface {
             // Process is no longer alive
             managed.info.status = 'stopped';
             managed.info.exitCode = -1;
-            log.info('Service stopped (process killed)', { servicePath });
-            this.notifyStatusChange(servicePath, 'stopped');
+            log.info('Service stopped (process killed)', { serviceId });
+            this.notifyStatusChange(managed.service.path, 'stopped');
+            continue;
           }
+
+          this.recheckHealth(managed).catch(error => {
+            log.debug('Health check failed', { serviceId, error: error as Error });
+          });
+          inspections.push(this.inspectProcessTree(managed).catch(error => {
+            log.debug('Process tree inspection failed', { serviceId, error: error as Error });
+          }));
+        } else if (managed.reattached && managed.info.status === 'running') {
+          inspections.push(this.checkReattachedProcess(managed).catch(error => {
+            log.debug('Reattached process check failed', { serviceId, error: error as Error });
+          }));
         }
       }
+
+      // One refresh for all services rather than one per sample
+      if (inspections.length > 0) {
+        Promise.all(inspections).then(() => eventBus.emitTrayUpdate());
+      }
     }, this.options.statusPollingInterval);
   }
 
+  // Looks for listening sockets anywhere in the service's process tree, so
+  // servers started by a wrapper (npm, a shell) are found too, and samples
+  // the tree's resource usage
+  private async inspectProcessTree(managed: ManagedProcess): Promise<void> {
+    const rootPid = managed.process?.pid ?? managed.info.pid;
+    if (rootPid <= 0) {
+      return;
+    }
+
+    const tree = await getProcessTree(rootPid);
+    const pids = [...new Set([rootPid, ...tree.map(entry => entry.pid)])];
+    const ports = await findListeningPorts(pids);
+    if (ports && ports.length > 0 && managed.info.status === 'running') {
+      this.recordPorts(managed, ports);
+    }
+
+    managed.sampler ??= new ResourceSampler();
+    const sample = await managed.sampler.sample(pids);
+    if (managed.info.status === 'running') {
+      this.recordResources(managed, sample);
+    }
+  }
+
+  private recordResources(managed: ManagedProcess, sample: ResourceSample): void {
+    const history = [...(managed.info.resources ?? []), sample];
+    managed.info.resources = history.slice(-config.defaults.resourceMonitor.historySize);
+
+    const { service } = managed;
+    if (!service.memoryThreshold) {
+      return;
+    }
+
+    const threshold = service.memoryThreshold * 1024 * 1024;
+    if (sample.rss <= threshold) {
+      managed.memoryAlerted = false;
+      return;
+    }
+    if (managed.memoryAlerted) {
+      return;
+    }
+
+    managed.memoryAlerted = true;
+    this.appendLog(
+      service,
+      managed.info.logs,
+      `Memory usage ${formatBytes(sample.rss)} exceeds the ${service.memoryThreshold} MB threshold`
+    );
+    log.warn('Service exceeded memory threshold', { service: service.name, rss: sample.rss, threshold });
+    eventBus.emitServiceResourceAlert(service, sample.rss, threshold);
+  }
+
+  private recordPorts(managed: ManagedProcess, ports: number[]): void {
+    const known = managed.info.ports ?? [];
+    const added = ports.filter(port => !known.includes(port));
+    if (added.length === 0) {
+      return;
+    }
+
+    managed.info.ports = [...known, ...added].sort((a, b) => a - b);
+    this.appendLog(managed.service, managed.info.logs, `Detected listening port ${added.join(', ')}`);
+    log.info('Detected listening ports', { service: managed.service.name, ports: managed.info.ports });
+    this.notifyStatusChange(managed.service.path, managed.info.status);
+  }
+
   private notifyStatusChange(servicePath: string, status: ServiceStatus): void {
     eventBus.emitServiceStatusChanged(servicePath, status);
   }
 
-  destroy(): void {
+  // Detached services, and with releaseReattached the ones an earlier session
+  // started, keep running and stay in the ledger for the next session;
+  // output files are drained so it only reads newer output
+  private async releaseServices(): Promise<void> {
+    for (const [serviceId, managed] of [...this.processes.entries()]) {
+      const status = managed.info.status;
+      const release = managed.detached || (managed.reattached && this.options.releaseReattached);
+      if (!release || (status !== 'running' && status !== 'starting')) {
+        continue;
+      }
+
+      await managed.stopTailing?.();
+      managed.process?.removeAllListeners('exit');
+      this.processes.delete(serviceId);
+      log.info('Leaving service running', { service: managed.service.name, pid: managed.info.pid });
+    }
+  }
+
+  // Resolves once services that are not released are stopped, and the ledger
+  // and buffered logs are on disk
+  destroy(): Promise<void> {
     if (this.statusPollingInterval) {
       clearInterval(this.statusPollingInterval);
       this.statusPollingInterval = null;
     }
+
+    for (const serviceId of this.restartStates.keys()) {
+      this.cancelPendingRestart(serviceId);
+    }
+    this.restartStates.clear();
     
-    this.stopAllServices().catch(error => {
-      log.error('Error during cleanup', error as Error);
-    });
+    return this.releaseServices()
+      .then(() => this.stopAllServices())
+      .then(() => this.ledger?.flush())
+      .then(() => this.logStore.close())
+      .catch(error => {
+        log.error('Error during cleanup', error as Error);
+      });
   }
 } 
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { execFile } from 'child_process';
+import { readdir, readFile } from 'fs/promises';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('ProcessTree');
+
+export interface ProcessEntry {
+  pid: number;
+  ppid: number;
+  pgid: number;
+  command: string;
+}
+
+// Services run in their own process group everywhere except Windows, where
+// detached means "new console window" instead
+export const supportsProcessGroups = process.platform !== 'win32';
+
+export async function listProcesses(): Promise<ProcessEntry[]> {
+  try {
+    return process.platform === 'linux' ? await listFromProc() : await listFromPs();
+  } catch (error) {
+    log.debug('Failed to list processes', { error: error as Error });
+    return [];
+  }
+}
+
+// /proc/<pid>/stat is "pid (comm) state ppid pgrp ..."; comm may contain spaces
+// and parentheses, so split on the last closing parenthesis
+function parseProcStat(stat: string): (ProcessEntry & { state: string }) | null {
+  const open = stat.indexOf('(');
+  const close = stat.lastIndexOf(')');
+  if (open === -1 || close === -1) {
+    return null;
+  }
+
+  const fields = stat.slice(close + 2).split(' ');
+  return {
+    pid: parseInt(stat.slice(0, open), 10),
+    command: stat.slice(open + 1, close),
+    state: fields[0] ?? '',
+    ppid: parseInt(fields[1] ?? '0', 10),
+    pgid: parseInt(fields[2] ?? '0', 10),
+  };
+}
+
+async function listFromProc(): Promise<ProcessEntry[]> {
+  const entries = await readdir('/proc');
+  const processes: ProcessEntry[] = [];
+
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+
+    try {
+      const parsed = parseProcStat(await readFile(`/proc/${entry}/stat`, 'utf-8'));
+      if (parsed && parsed.state !== 'Z') {
+        processes.push({ pid: parsed.pid, ppid: parsed.ppid, pgid: parsed.pgid, command: parsed.command });
+      }
+    } catch (error) {
+      // Process exited while we were reading it
+    }
+  }
+
+  return processes;
+}
+
+function listFromPs(): Promise<ProcessEntry[]> {
+  return new Promise((resolve, reject) => {
+    execFile('ps', ['-A', '-o', 'pid=,ppid=,pgid=,stat=,comm='], (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      const processes: ProcessEntry[] = [];
+      for (const line of stdout.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(\d+)\s+(\d+)\s+(\S+)\s+(.*)$/);
+        if (match && !match[4]!.startsWith('Z')) {
+          processes.push({
+            pid: parseInt(match[1]!, 10),
+            ppid: parseInt(match[2]!, 10),
+            pgid: parseInt(match[3]!, 10),
+            command: match[5]!,
+          });
+        }
+      }
+      resolve(processes);
+    });
+  });
+}
+
+// Returns the root process, every descendant (including ones that moved to
+// another process group) and anything left in the root's process group after
+// the root itself exited
+export async function getProcessTree(rootPid: number): Promise<ProcessEntry[]> {
+  const processes = await listProcesses();
+  const tree: ProcessEntry[] = [];
+  const pending = [
+    rootPid,
+    ...(supportsProcessGroups ? processes.filter(p => p.pgid === rootPid).map(p => p.pid) : []),
+  ];
+  const seen = new Set<number>();
+
+  while (pending.length > 0) {
+    const pid = pending.shift()!;
+    if (seen.has(pid)) {
+      continue;
+    }
+    seen.add(pid);
+
+    const entry = processes.find(p => p.pid === pid);
+    if (entry) {
+      tree.push(entry);
+    }
+    pending.push(...processes.filter(p => p.ppid === pid).map(p => p.pid));
+  }
+
+  return tree;
+}
+
+export async function isProcessAlive(pid: number): Promise<boolean> {
+  try {
+    process.kill(pid, 0);
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+
+  // kill(0) succeeds for zombies that have not been reaped yet
+  if (process.platform === 'linux') {
+    try {
+      const parsed = parseProcStat(await readFile(`/proc/${pid}/stat`, 'utf-8'));
+      return parsed !== null && parsed.state !== 'Z';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// An opaque value that changes when a pid is reused: clock ticks after boot
+// on Linux, the launch time elsewhere. null when the process does not exist.
+export async function getProcessStartTime(pid: number): Promise<number | null> {
+  if (process.platform === 'linux') {
+    try {
+      const stat = await readFile(`/proc/${pid}/stat`, 'utf-8');
+      const startTime = parseInt(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19] ?? '', 10);
+      return isNaN(startTime) ? null : startTime;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  const lstart = await runPs(['-o', 'lstart=', '-p', String(pid)]);
+  const startTime = lstart ? Date.parse(lstart) : NaN;
+  return isNaN(startTime) ? null : startTime;
+}
+
+// Full command line of a process, or null when it does not exist
+export async function getProcessCommand(pid: number): Promise<string | null> {
+  if (process.platform === 'linux') {
+    try {
+      const cmdline = await readFile(`/proc/${pid}/cmdline`, 'utf-8');
+      return cmdline.split('\0').filter(Boolean).join(' ');
+    } catch (error) {
+      return null;
+    }
+  }
+
+  return runPs(['-o', 'command=', '-p', String(pid)]);
+}
+
+function runPs(args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile('ps', args, (error, stdout) => {
+      resolve(error || !stdout.trim() ? null : stdout.trim());
+    });
+  });
+}
+
+export async function findSurvivors(tree: ProcessEntry[]): Promise<ProcessEntry[]> {
+  const alive = await Promise.all(tree.map(entry => isProcessAlive(entry.pid)));
+  return tree.filter((_, index) => alive[index]);
+}
+
+// Signals the process group led by rootPid, plus any known descendants that
+// escaped it (e.g. via setsid)
+export function signalProcessTree(rootPid: number, tree: ProcessEntry[], signal: NodeJS.Signals): void {
+  const send = (pid: number): boolean => {
+    try {
+      process.kill(pid, signal);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        log.debug('Failed to signal process', { pid, signal, error: error as Error });
+      }
+      return false;
+    }
+  };
+
+  // Processes Runbar did not spawn, e.g. adopted port owners, may not lead a group
+  if (!supportsProcessGroups || !send(-rootPid)) {
+    send(rootPid);
+  }
+
+  for (const entry of tree) {
+    if (entry.pid !== rootPid && (!supportsProcessGroups || entry.pgid !== rootPid)) {
+      send(entry.pid);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { execFile } from 'child_process';
+import { readdir, readFile } from 'fs/promises';
+import type { ResourceSample } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('ResourceMonitor');
+
+// USER_HZ, which the kernel fixes at 100 on every mainstream architecture
+const CLOCK_TICKS_PER_SECOND = 100;
+
+export interface ProcessUsage {
+  pid: number;
+  cpuTime: number; // ms of user + system time since the process started
+  rss: number; // bytes
+  threads: number | null;
+  fds: number | null;
+}
+
+// utime, stime and num_threads from /proc/<pid>/stat; fields are counted
+// after the last ')' because comm may contain spaces and parentheses
+export function parseProcStatUsage(stat: string): { cpuTime: number; threads: number } | null {
+  const close = stat.lastIndexOf(')');
+  if (close === -1) {
+    return null;
+  }
+
+  const fields = stat.slice(close + 2).split(' ');
+  const utime = parseInt(fields[11] ?? '', 10);
+  const stime = parseInt(fields[12] ?? '', 10);
+  const threads = parseInt(fields[17] ?? '', 10);
+  if (isNaN(utime) || isNaN(stime) || isNaN(threads)) {
+    return null;
+  }
+
+  return { cpuTime: ((utime + stime) * 1000) / CLOCK_TICKS_PER_SECOND, threads };
+}
+
+// ps prints cumulative CPU time as [[dd-]hh:]mm:ss[.cc]
+export function parsePsTime(time: string): number {
+  const [days, clock] = time.includes('-') ? time.split('-') as [string, string] : ['0', time];
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return (parseInt(days, 10) * 86400 + seconds) * 1000;
+}
+
+async function readUsageFromProc(pid: number): Promise<ProcessUsage | null> {
+  try {
+    const stat = parseProcStatUsage(await readFile(`/proc/${pid}/stat`, 'utf-8'));
+    if (!stat) {
+      return null;
+    }
+
+    const status = await readFile(`/proc/${pid}/status`, 'utf-8');
+    const rssKb = parseInt(status.match(/^VmRSS:\s+(\d+) kB/m)?.[1] ?? '0', 10);
+    const fds = await readdir(`/proc/${pid}/fd`).then(entries => entries.length, () => null);
+    return { pid, cpuTime: stat.cpuTime, rss: rssKb * 1024, threads: stat.threads, fds };
+  } catch (error) {
+    return null; // exited while we were reading it
+  }
+}
+
+// Counts numeric descriptors per pid in `lsof -F f` output, where each
+// process starts with a 'p<pid>' line and each open file has an 'f<fd>' line.
+// Entries such as cwd, txt and mem are not descriptors.
+export function parseLsofFdCounts(output: string): Map<number, number> {
+  const counts = new Map<number, number>();
+  let pid: number | null = null;
+  for (const line of output.split('\n')) {
+    if (line.startsWith('p')) {
+      pid = parseInt(line.slice(1), 10);
+      counts.set(pid, 0);
+    } else if (pid !== null && /^f\d+$/.test(line)) {
+      counts.set(pid, (counts.get(pid) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+// Resolves stdout, or null when the command failed without printing anything
+function run(file: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(file, args, (error, stdout) => {
+      if (error && !stdout) {
+        log.debug(`Failed to run ${file}`, { error });
+        resolve(null);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+// `ps -M` is macOS-only and prints a header followed by one line per thread
+async function countThreadsWithPs(pid: number): Promise<number | null> {
+  if (process.platform !== 'darwin') {
+    return null;
+  }
+  const stdout = await run('ps', ['-M', '-p', String(pid)]);
+  const lines = stdout?.split('\n').filter(line => line.trim()) ?? [];
+  return lines.length > 1 ? lines.length - 1 : null;
+}
+
+async function readUsageWithPs(pids: number[]): Promise<ProcessUsage[]> {
+  // ps and lsof exit 1 when some of the pids are gone but still list the rest
+  const [stdout, lsofOutput] = await Promise.all([
+    run('ps', ['-o', 'pid=,time=,rss=', '-p', pids.join(',')]),
+    run('lsof', ['-n', '-P', '-w', '-F', 'f', '-p', pids.join(',')]),
+  ]);
+  if (stdout === null) {
+    return [];
+  }
+  const fds = lsofOutput === null ? null : parseLsofFdCounts(lsofOutput);
+
+  const usage: ProcessUsage[] = [];
+  for (const line of stdout.split('\n')) {
+    const match = line.trim().match(/^(\d+)\s+(\S+)\s+(\d+)$/);
+    if (match) {
+      const pid = parseInt(match[1]!, 10);
+      usage.push({
+        pid,
+        cpuTime: parsePsTime(match[2]!),
+        rss: parseInt(match[3]!, 10) * 1024,
+        threads: await countThreadsWithPs(pid),
+        fds: fds?.get(pid) ?? null,
+      });
+    }
+  }
+  return usage;
+}
+
+export async function readProcessUsage(pids: number[]): Promise<ProcessUsage[]> {
+  if (pids.length === 0) {
+    return [];
+  }
+
+  if (process.platform === 'linux') {
+    const usage = await Promise.all(pids.map(readUsageFromProc));
+    return usage.filter((entry): entry is ProcessUsage => entry !== null);
+  }
+  return readUsageWithPs(pids);
+}
+
+function sumOrNull(values: (number | null)[]): number | null {
+  return values.some(value => value === null) ? null : values.reduce<number>((total, value) => total + value!, 0);
+}
+
+// Samples a process tree over time. CPU is the share of one core used since
+// the previous sample, so the first sample always reports 0.
+export class ResourceSampler {
+  private previous: { timestamp: number; cpuTimes: Map<number, number> } | null = null;
+
+  async sample(pids: number[]): Promise<ResourceSample> {
+    const usage = await readProcessUsage(pids);
+    const now = Date.now();
+
+    let cpu = 0;
+    if (this.previous && now > this.previous.timestamp) {
+      // Processes that appeared since the last sample count from zero
+      const used = usage.reduce((total, entry) => {
+        return total + Math.max(0, entry.cpuTime - (this.previous!.cpuTimes.get(entry.pid) ?? 0));
+      }, 0);
+      cpu = (used / (now - this.previous.timestamp)) * 100;
+    }
+    this.previous = { timestamp: now, cpuTimes: new Map(usage.map(entry => [entry.pid, entry.cpuTime])) };
+
+    return {
+      timestamp: new Date(now),
+      cpu: Math.round(cpu * 10) / 10,
+      rss: usage.reduce((total, entry) => total + entry.rss, 0),
+      threads: usage.length > 0 ? sumOrNull(usage.map(entry => entry.threads)) : null,
+      fds: usage.length > 0 ? sumOrNull(usage.map(entry => entry.fds)) : null,
+      processes: usage.length,
+    };
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
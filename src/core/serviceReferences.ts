@@ -0,0 +1,61 @@
+import type { Service } from '../shared/types';
+import { ServiceError } from '../shared/types';
+import { config } from '../shared/config';
+
+// ${services.<id or name>.<attribute>}; names match case-insensitively with
+// runs of other characters treated as '-', so "API Server" is api-server
+const REFERENCE_PATTERN = /\$\{services\.([A-Za-z0-9_-]+)\.([A-Za-z]+)\}/g;
+
+const ATTRIBUTES = ['port', 'url'] as const;
+
+type ReferenceAttribute = (typeof ATTRIBUTES)[number];
+
+export function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function hasServiceReferences(text: string): boolean {
+  return new RegExp(REFERENCE_PATTERN.source).test(text);
+}
+
+export function findReferencedService(services: Service[], key: string): Service | undefined {
+  return services.find(s => s.id === key) ?? services.find(s => slugify(s.name) === slugify(key));
+}
+
+// Replaces every reference in text. `services` should carry the ports the
+// services actually use, e.g. a running instance's port over the configured
+// one. Throws a ServiceError naming `field` when a reference cannot resolve.
+export function expandServiceReferences(text: string, services: Service[], service: Service, field: string): string {
+  return text.replace(REFERENCE_PATTERN, (reference, key: string, attribute: string) => {
+    if (!(ATTRIBUTES as readonly string[]).includes(attribute)) {
+      throw new ServiceError(
+        `Unknown attribute '${attribute}' in ${reference} (${field}); use ${ATTRIBUTES.join(' or ')}`,
+        service,
+        { reference, field }
+      );
+    }
+
+    const target = findReferencedService(services, key);
+    if (!target) {
+      throw new ServiceError(`Unknown service '${key}' referenced by ${reference} (${field})`, service, { reference, field });
+    }
+    if (!target.port) {
+      throw new ServiceError(
+        `Service '${target.name}' referenced by ${reference} (${field}) has no port`,
+        service,
+        { reference, field }
+      );
+    }
+
+    return formatAttribute(target.port, attribute as ReferenceAttribute);
+  });
+}
+
+function formatAttribute(port: number, attribute: ReferenceAttribute): string {
+  switch (attribute) {
+    case 'port':
+      return String(port);
+    case 'url':
+      return `http://${config.defaults.healthCheck.host}:${port}`;
+  }
+}
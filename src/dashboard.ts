@@ -69,6 +69,32 @@ export class Dashboard {
     return this.window?.isVisible() || false;
   }
 
+  // Resource samples for each service path, from the running app's control
+  // socket. Empty when Runbar is not running.
+  private static async getResourceUsage(): Promise<Map<string, { usage: any; memoryThreshold?: number }>> {
+    const { ControlClient } = require('./cli/client');
+    const { config } = require('./shared/config');
+    const usage = new Map<string, { usage: any; memoryThreshold?: number }>();
+
+    try {
+      const client = await ControlClient.connect(config.getSocketPath());
+      if (!client) {
+        return usage;
+      }
+      try {
+        const services = await client.call('services.list');
+        for (const service of services) {
+          usage.set(service.path, { usage: service.usage, memoryThreshold: service.memoryThreshold });
+        }
+      } finally {
+        client.close();
+      }
+    } catch (error) {
+      console.error('[Dashboard] Failed to read resource usage:', error);
+    }
+    return usage;
+  }
+
   private setupIpcHandlers(): void {
     // Prevent duplicate registration
     if (Dashboard.ipcHandlersRegistered) {
@@ -96,7 +122,9 @@ export class Dashboard {
       const storage = new Storage();
       const services = await storage.getServices();
       console.log('[Dashboard] Services loaded:', services.length);
-      return services;
+
+      const usage = await Dashboard.getResourceUsage();
+      return services.map((s: any) => ({ ...s, ...usage.get(s.path) }));
     });
 
     // Get groups data
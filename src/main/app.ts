@@ -2,11 +2,10 @@
 import type { Service, Group, Settings } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
 import { eventBus } from '../shared/events';
-import { StorageService } from '../services/storage';
-import { ServiceDiscoveryService } from '../services/discovery';
 import { TrayMenuController } from '../ui/trayMenuController';
-import { ProcessManager } from '../core/processManager';
 import { SettingsWindow } from '../ui/settingsWindow';
+import { DialogService } from '../ui/dialogService';
+import { RunbarRuntime } from './runtime';
 
 const log = createServiceLogger('App');
 
@@ -14,12 +13,13 @@ export interface AppOptions {
   configDir?: string;
   iconPath?: string;
   enableLogging?: boolean;
+  enableControlSocket?: boolean;
 }
 
+// The tray app: the Electron-free runtime plus the tray, settings window and
+// native dialogs for prompts
 export class RunbarApp {
-  private storageService: StorageService;
-  private discoveryService: ServiceDiscoveryService;
-  private processManager: ProcessManager;
+  private runtime: RunbarRuntime;
   private trayController: TrayMenuController | null = null;
   private settingsWindow: SettingsWindow | null = null;
   private options: AppOptions;
@@ -28,16 +28,15 @@ export class RunbarApp {
   constructor(options: AppOptions = {}) {
     this.options = {
       enableLogging: true,
+      enableControlSocket: true,
       ...options,
     };
-    
-    this.storageService = new StorageService(
-      this.options.configDir ? { configDir: this.options.configDir } : {}
-    );
-    
-    this.discoveryService = new ServiceDiscoveryService();
-    this.processManager = new ProcessManager();
-    
+
+    this.runtime = new RunbarRuntime({
+      ...(this.options.configDir && { configDir: this.options.configDir }),
+      prompter: new DialogService(),
+    });
+
     this.setupEventListeners();
   }
 
@@ -45,17 +44,18 @@ export class RunbarApp {
     try {
       log.info('Initializing Runbar application');
       
-      // Initialize storage first
-      await this.storageService.initialize();
-      
-      // Validate existing services
-      await this.validateServices();
+      // Load and validate the configuration
+      await this.runtime.initialize();
       
       // Initialize tray controller
       await this.initializeTrayController();
+
+      // Expose the control API for the CLI and scripts
+      await this.startControlServer();
+      await this.startProxyServer();
       
       // Auto-start services if enabled
-      await this.handleAutoStart();
+      await this.runtime.autoStartServices();
       
       this.isInitialized = true;
       eventBus.emitAppReady();
@@ -72,62 +72,6 @@ export class RunbarApp {
     eventBus.on('app:shutdown', () => {
       this.shutdown();
     });
-
-    // Listen for service events
-    eventBus.on('service:started', (event) => {
-      log.info('Service started', { service: event.service.name });
-    });
-
-    eventBus.on('service:stopped', (event) => {
-      log.info('Service stopped', { service: event.service.name });
-    });
-
-    eventBus.on('service:error', (event) => {
-      log.warn('Service error', { 
-        service: event.service.name, 
-        error: event.data as unknown
-      });
-    });
-
-    // Listen for config changes
-    eventBus.on('config:changed', (event) => {
-      log.info('Configuration changed', { type: event.type });
-    });
-  }
-
-  private async validateServices(): Promise<void> {
-    try {
-      log.info('Validating existing services');
-      
-      const services = await this.storageService.getServices();
-      const invalidServices: Service[] = [];
-      
-      for (const service of services) {
-        const isValid = await this.discoveryService.validateServicePath(service.path);
-        if (!isValid) {
-          invalidServices.push(service);
-          log.warn('Invalid service path', { 
-            service: service.name, 
-            path: service.path 
-          });
-        }
-      }
-      
-      if (invalidServices.length > 0) {
-        log.warn('Found invalid services', { 
-          count: invalidServices.length,
-          services: invalidServices.map(s => s.name)
-        });
-        // TODO: Show notification to user about invalid services
-      }
-      
-      log.info('Service validation completed', { 
-        total: services.length, 
-        invalid: invalidServices.length 
-      });
-    } catch (error) {
-      log.error('Failed to validate services', error as Error);
-    }
   }
 
   private async initializeTrayController(): Promise<void> {
@@ -135,8 +79,8 @@ export class RunbarApp {
       log.info('Initializing tray controller');
       
       this.trayController = new TrayMenuController({
-        storageService: this.storageService,
-        processManager: this.processManager,
+        storageService: this.runtime.storageService,
+        processManager: this.runtime.processManager,
         ...(this.options.iconPath && { iconPath: this.options.iconPath }),
       });
       
@@ -149,36 +93,24 @@ export class RunbarApp {
     }
   }
 
-  private async handleAutoStart(): Promise<void> {
+  private async startControlServer(): Promise<void> {
+    if (!this.options.enableControlSocket) {
+      return;
+    }
+
     try {
-      const settings = await this.storageService.getSettings();
-      
-      if (!settings.globalAutoStart) {
-        log.info('Auto-start disabled globally');
-        return;
-      }
-      
-      log.info('Handling auto-start for services');
-      
-      const services = await this.storageService.getServices();
-      const autoStartServices = services.filter(s => s.autoStart);
-      
-      if (autoStartServices.length === 0) {
-        log.info('No services configured for auto-start');
-        return;
-      }
-      
-      log.info('Auto-starting services', { 
-        count: autoStartServices.length,
-        services: autoStartServices.map(s => s.name)
-      });
-      
-      for (const service of autoStartServices) {
-        log.info('Auto-starting service', { service: service.name });
-        await this.processManager.startService(service);
-      }
+      await this.runtime.startControlServer();
+    } catch (error) {
+      // The tray keeps working without the socket
+      log.warn('Failed to start control socket', { error: error as Error });
+    }
+  }
+
+  private async startProxyServer(): Promise<void> {
+    try {
+      await this.runtime.startProxyServer();
     } catch (error) {
-      log.error('Failed to handle auto-start', error as Error);
+      log.warn('Failed to start proxy', { error: error as Error });
     }
   }
 
@@ -207,7 +139,7 @@ export class RunbarApp {
     try {
       log.info('Exporting configuration');
       
-      const configData = await this.storageService.exportConfig();
+      const configData = await this.runtime.storageService.exportConfig();
       
       // TODO: Implement file save dialog
       log.info('Configuration exported', { 
@@ -223,7 +155,7 @@ export class RunbarApp {
     try {
       log.info('Importing configuration');
       
-      await this.storageService.importConfig(configData);
+      await this.runtime.storageService.importConfig(configData);
       
       log.info('Configuration imported successfully');
       
@@ -238,20 +170,20 @@ export class RunbarApp {
   }
 
   async getServices(): Promise<Service[]> {
-    return this.storageService.getServices();
+    return this.runtime.getServices();
   }
 
   async getGroups(): Promise<Group[]> {
-    return this.storageService.getGroups();
+    return this.runtime.getGroups();
   }
 
   async getSettings(): Promise<Settings> {
-    return this.storageService.getSettings();
+    return this.runtime.getSettings();
   }
 
   async addService(serviceData: Omit<Service, 'id' | 'createdAt' | 'updatedAt'>): Promise<Service> {
     try {
-      const service = await this.storageService.addService(serviceData);
+      const service = await this.runtime.addService(serviceData);
       
       // Update tray menu after adding service
       if (this.trayController) {
@@ -267,7 +199,7 @@ export class RunbarApp {
 
   async updateService(id: string, updates: Partial<Service>): Promise<Service> {
     try {
-      const service = await this.storageService.updateService(id, updates);
+      const service = await this.runtime.updateService(id, updates);
       
       // Update tray menu after updating service
       if (this.trayController) {
@@ -283,7 +215,7 @@ export class RunbarApp {
 
   async deleteService(id: string): Promise<void> {
     try {
-      await this.storageService.deleteService(id);
+      await this.runtime.deleteService(id);
       
       // Update tray menu after deleting service
       if (this.trayController) {
@@ -297,7 +229,7 @@ export class RunbarApp {
 
   async discoverServices(folderPath: string): Promise<any[]> {
     try {
-      return await this.discoveryService.discoverServices(folderPath);
+      return await this.runtime.discoverServices(folderPath);
     } catch (error) {
       log.error('Failed to discover services', error as Error);
       throw error;
@@ -320,8 +252,8 @@ export class RunbarApp {
         this.trayController = null;
       }
       
-      // Stop all running services
-      await this.processManager.stopAllServices();
+      // Stop accepting control requests and stop all running services
+      await this.runtime.shutdown();
       
       log.info('Runbar application shutdown completed');
     } catch (error) {
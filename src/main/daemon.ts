@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { RunbarRuntime, type RuntimeOptions } from './runtime';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('Daemon');
+
+function waitForShutdownSignal(): Promise<string> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => resolve('SIGINT'));
+    process.once('SIGTERM', () => resolve('SIGTERM'));
+  });
+}
+
+// Runs Runbar as a plain Node process with no display: services are driven
+// through the control socket (the runbar CLI) and port-conflict prompts take
+// their default answer. Returns once a shutdown signal has been handled.
+export async function runDaemon(options: RuntimeOptions = {}): Promise<void> {
+  const runtime = new RunbarRuntime(options);
+  await runtime.initialize();
+
+  try {
+    await runtime.startControlServer();
+  } catch (error) {
+    await runtime.shutdown();
+    throw error;
+  }
+
+  try {
+    await runtime.startProxyServer();
+  } catch (error) {
+    log.warn('Failed to start proxy', { error: error as Error });
+  }
+
+  await runtime.autoStartServices();
+  log.info('Runbar daemon started', { pid: process.pid, socketPath: runtime.getSocketPath() });
+
+  const signal = await waitForShutdownSignal();
+  log.info('Runbar daemon stopping', { signal });
+  await runtime.shutdown();
+  log.info('Runbar daemon stopped');
+}
+
+if (require.main === module) {
+  runDaemon().catch((error) => {
+    log.error('Runbar daemon failed', error as Error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,240 @@
+import type { Service, Group, Settings, DiscoveredService, PromptProvider } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { eventBus } from '../shared/events';
+import { StorageService } from '../services/storage';
+import { ServiceDiscoveryService } from '../services/discovery';
+import { ControlServer } from '../services/controlServer';
+import { PortRegistry } from '../services/portRegistry';
+import { ProxyServer } from '../services/proxyServer';
+import { ProcessManager } from '../core/processManager';
+import { config } from '../shared/config';
+
+const log = createServiceLogger('Runtime');
+
+export interface RuntimeOptions {
+  configDir?: string;
+  socketPath?: string;
+  logDir?: string;
+  prompter?: PromptProvider;
+  // Leave services found running from an earlier session alone on shutdown,
+  // for short-lived sessions such as the CLI's headless mode
+  releaseReattached?: boolean;
+}
+
+// Storage, discovery, process management and the control socket, with no
+// Electron dependency. The tray app wraps it with a UI; the daemon and the
+// CLI's headless mode run it on its own.
+export class RunbarRuntime {
+  readonly storageService: StorageService;
+  readonly discoveryService: ServiceDiscoveryService;
+  readonly processManager: ProcessManager;
+  private controlServer: ControlServer | null = null;
+  private proxyServer: ProxyServer | null = null;
+  private options: RuntimeOptions;
+
+  constructor(options: RuntimeOptions = {}) {
+    this.options = options;
+
+    this.storageService = new StorageService(
+      options.configDir ? { configDir: options.configDir } : {}
+    );
+    this.discoveryService = new ServiceDiscoveryService();
+    this.processManager = new ProcessManager({
+      storageService: this.storageService,
+      ledgerPath: config.getLedgerPath(options.configDir),
+      ...(options.logDir && { logDir: options.logDir }),
+      ...(options.prompter && { prompter: options.prompter }),
+      ...(options.releaseReattached && { releaseReattached: true }),
+    });
+
+    this.setupEventListeners();
+  }
+
+  async initialize(): Promise<void> {
+    await this.storageService.initialize();
+    await this.validateServices();
+    await this.reattachServices();
+  }
+
+  private setupEventListeners(): void {
+    eventBus.on('service:started', (event) => {
+      log.info('Service started', { service: event.service.name });
+    });
+
+    eventBus.on('service:stopped', (event) => {
+      log.info('Service stopped', { service: event.service.name });
+    });
+
+    eventBus.on('service:error', (event) => {
+      log.warn('Service error', {
+        service: event.service.name,
+        error: event.data as unknown
+      });
+    });
+
+    eventBus.on('config:changed', (event) => {
+      log.info('Configuration changed', { type: event.type });
+    });
+  }
+
+  private async validateServices(): Promise<void> {
+    try {
+      log.info('Validating existing services');
+
+      const services = await this.storageService.getServices();
+      const invalidServices: Service[] = [];
+
+      for (const service of services) {
+        const isValid = await this.discoveryService.validateServicePath(service.path);
+        if (!isValid) {
+          invalidServices.push(service);
+          log.warn('Invalid service path', {
+            service: service.name,
+            path: service.path
+          });
+        }
+      }
+
+      if (invalidServices.length > 0) {
+        log.warn('Found invalid services', {
+          count: invalidServices.length,
+          services: invalidServices.map(s => s.name)
+        });
+      }
+
+      for (const overlap of new PortRegistry(services).findOverlaps()) {
+        log.warn('Services claim the same port', {
+          port: overlap.port,
+          services: services.filter(s => overlap.serviceIds.includes(s.id)).map(s => s.name)
+        });
+      }
+
+      log.info('Service validation completed', {
+        total: services.length,
+        invalid: invalidServices.length
+      });
+    } catch (error) {
+      log.error('Failed to validate services', error as Error);
+    }
+  }
+
+  // Services left running by a previous session that quit or crashed
+  private async reattachServices(): Promise<void> {
+    try {
+      await this.processManager.reattachServices(await this.storageService.getServices());
+    } catch (error) {
+      log.error('Failed to reattach services', error as Error);
+    }
+  }
+
+  // Throws if the socket cannot be created, e.g. when another instance owns it
+  async startControlServer(): Promise<void> {
+    if (this.controlServer) {
+      return;
+    }
+
+    const controlServer = new ControlServer({
+      storageService: this.storageService,
+      processManager: this.processManager,
+      ...(this.options.socketPath && { socketPath: this.options.socketPath }),
+    });
+    await controlServer.start();
+    this.controlServer = controlServer;
+  }
+
+  // Starts the reverse proxy when settings.proxy enables it. Throws if the
+  // port cannot be bound.
+  async startProxyServer(): Promise<void> {
+    const settings = await this.storageService.getSettings();
+    if (this.proxyServer || !settings.proxy?.enabled) {
+      return;
+    }
+
+    const proxyServer = new ProxyServer({
+      storageService: this.storageService,
+      processManager: this.processManager,
+      ...(settings.proxy.port && { port: settings.proxy.port }),
+      ...(settings.proxy.startOnRequest && { startOnRequest: true }),
+    });
+    await proxyServer.start();
+    this.proxyServer = proxyServer;
+  }
+
+  getSocketPath(): string | null {
+    return this.controlServer?.getSocketPath() ?? null;
+  }
+
+  async autoStartServices(): Promise<void> {
+    try {
+      const settings = await this.storageService.getSettings();
+
+      if (!settings.globalAutoStart) {
+        log.info('Auto-start disabled globally');
+        return;
+      }
+
+      const services = await this.storageService.getServices();
+      const autoStartServices = services.filter(s => s.autoStart);
+
+      if (autoStartServices.length === 0) {
+        log.info('No services configured for auto-start');
+        return;
+      }
+
+      log.info('Auto-starting services', {
+        count: autoStartServices.length,
+        services: autoStartServices.map(s => s.name)
+      });
+
+      for (const service of autoStartServices) {
+        await this.processManager.startService(service);
+      }
+    } catch (error) {
+      log.error('Failed to handle auto-start', error as Error);
+    }
+  }
+
+  async getServices(): Promise<Service[]> {
+    return this.storageService.getServices();
+  }
+
+  async getGroups(): Promise<Group[]> {
+    return this.storageService.getGroups();
+  }
+
+  async getSettings(): Promise<Settings> {
+    return this.storageService.getSettings();
+  }
+
+  async addService(serviceData: Omit<Service, 'id' | 'createdAt' | 'updatedAt'>): Promise<Service> {
+    return this.storageService.addService(serviceData);
+  }
+
+  async updateService(id: string, updates: Partial<Service>): Promise<Service> {
+    return this.storageService.updateService(id, updates);
+  }
+
+  async deleteService(id: string): Promise<void> {
+    await this.storageService.deleteService(id);
+  }
+
+  async discoverServices(folderPath: string): Promise<DiscoveredService[]> {
+    return this.discoveryService.discoverServices(folderPath);
+  }
+
+  // Stops accepting control and proxy requests, then stops every service that
+  // is not released and flushes logs
+  async shutdown(): Promise<void> {
+    if (this.controlServer) {
+      await this.controlServer.stop();
+      this.controlServer = null;
+    }
+
+    if (this.proxyServer) {
+      await this.proxyServer.stop();
+      this.proxyServer = null;
+    }
+
+    await this.processManager.destroy();
+  }
+}
@@ -0,0 +1,185 @@
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import type { HealthCheck } from '../shared/types';
+import { config } from '../shared/config';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('Compose');
+
+// In the order Docker Compose itself looks for them
+export const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+
+// Docker's own healthcheck defaults
+const DOCKER_HEALTHCHECK_INTERVAL = 30000;
+const DOCKER_HEALTHCHECK_RETRIES = 3;
+
+// Polling Docker more often than it re-runs the healthcheck is cheap, and
+// keeps a slow interval from delaying readiness by a whole interval
+const MAX_PROBE_INTERVAL = 5000;
+
+export interface ComposeService {
+  name: string;
+  command: string;
+  port?: number; // first published host port
+  dependsOn: string[];
+  healthCheck?: HealthCheck;
+  profiles: string[];
+}
+
+export interface ComposeProject {
+  name: string;
+  files: string[]; // the base file and its override, as Compose loads them
+  services: ComposeService[];
+}
+
+interface RawComposeService {
+  ports?: unknown[];
+  depends_on?: string[] | Record<string, unknown>;
+  healthcheck?: {
+    test?: string | string[];
+    disable?: boolean;
+    interval?: string;
+    retries?: number;
+    start_period?: string;
+  };
+  profiles?: string[];
+}
+
+interface RawComposeFile {
+  name?: string;
+  services?: Record<string, RawComposeService | null>;
+}
+
+// Compose durations: "1m30s", "10s", "500ms", "1h"
+export function parseComposeDuration(value: unknown): number | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1, us: 0.001 };
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|us|h|m|s)/g)];
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== value.trim()) {
+    return null;
+  }
+  return Math.round(parts.reduce((total, part) => total + parseFloat(part[1]!) * units[part[2]!]!, 0));
+}
+
+// The host side of "8080:80", "127.0.0.1:8080:80/tcp", "3000-3005:3000-3005"
+// or { published: 8080 }; a bare container port publishes nothing fixed
+export function parsePublishedPort(entry: unknown): number | null {
+  if (entry && typeof entry === 'object') {
+    const published = parseInt(String((entry as { published?: unknown }).published ?? ''), 10);
+    return published > 0 ? published : null;
+  }
+
+  const parts = String(entry).replace(/\/\w+$/, '').split(':');
+  if (parts.length < 2) {
+    return null;
+  }
+  const published = parseInt(parts[parts.length - 2]!, 10);
+  return published > 0 ? published : null;
+}
+
+function dependencyNames(dependsOn: RawComposeService['depends_on']): string[] {
+  if (Array.isArray(dependsOn)) {
+    return dependsOn.filter((name): name is string => typeof name === 'string');
+  }
+  return dependsOn ? Object.keys(dependsOn) : [];
+}
+
+// Ready once Docker reports the container healthy, so the probe stays as
+// strict as the healthcheck itself; the timeout allows for every retry
+function composeHealthCheck(name: string, healthcheck: RawComposeService['healthcheck']): HealthCheck | undefined {
+  const test = healthcheck?.test;
+  if (!healthcheck || healthcheck.disable || !test || (Array.isArray(test) && test[0] === 'NONE')) {
+    return undefined;
+  }
+
+  const interval = parseComposeDuration(healthcheck.interval) ?? DOCKER_HEALTHCHECK_INTERVAL;
+  const startPeriod = parseComposeDuration(healthcheck.start_period) ?? 0;
+  const retries = healthcheck.retries ?? DOCKER_HEALTHCHECK_RETRIES;
+
+  return {
+    type: 'command',
+    command: `test "$(docker inspect -f '{{.State.Health.Status}}' "$(docker compose ps -q ${name})")" = healthy`,
+    interval: Math.min(interval, MAX_PROBE_INTERVAL),
+    timeout: config.defaults.healthCheck.timeout + startPeriod + interval * retries,
+  };
+}
+
+// Later files override earlier ones the way Compose merges them: lists of
+// ports and dependencies add up, everything else is replaced
+function mergeServices(base: RawComposeService, override: RawComposeService): RawComposeService {
+  return {
+    ...base,
+    ...override,
+    ports: [...(base.ports ?? []), ...(override.ports ?? [])],
+    depends_on: [...new Set([...dependencyNames(base.depends_on), ...dependencyNames(override.depends_on)])],
+  };
+}
+
+async function readComposeFile(filePath: string): Promise<RawComposeFile | null> {
+  try {
+    const content = parseYaml(await readFile(filePath, 'utf-8')) as unknown;
+    return content && typeof content === 'object' ? (content as RawComposeFile) : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.warn('Ignoring unreadable compose file', { filePath, error: error as Error });
+    }
+    return null;
+  }
+}
+
+// Reads the compose file Docker Compose would use in the directory, with its
+// override file, and describes each service as something to run on its own
+export async function readComposeProject(dirPath: string): Promise<ComposeProject | null> {
+  for (const fileName of COMPOSE_FILES) {
+    const base = await readComposeFile(path.join(dirPath, fileName));
+    if (!base?.services) {
+      continue;
+    }
+
+    const stem = path.basename(fileName, path.extname(fileName));
+    let overrideName: string | null = null;
+    let override: RawComposeFile | null = null;
+    for (const candidate of [`${stem}.override.yaml`, `${stem}.override.yml`]) {
+      override = await readComposeFile(path.join(dirPath, candidate));
+      if (override) {
+        overrideName = candidate;
+        break;
+      }
+    }
+
+    const merged: Record<string, RawComposeService> = {};
+    for (const file of [base, override]) {
+      for (const [name, service] of Object.entries(file?.services ?? {})) {
+        merged[name] = merged[name] ? mergeServices(merged[name]!, service ?? {}) : service ?? {};
+      }
+    }
+
+    const services = Object.entries(merged).map(([name, service]): ComposeService => {
+      const port = (service.ports ?? []).map(parsePublishedPort).find((p): p is number => p !== null);
+      const profiles = service.profiles ?? [];
+      const healthCheck = composeHealthCheck(name, service.healthcheck);
+      return {
+        name,
+        // A service behind a profile only starts with that profile enabled;
+        // dependencies are left to Runbar so each can be stopped on its own
+        command: `docker compose ${profiles[0] ? `--profile ${profiles[0]} ` : ''}up --no-deps ${name}`,
+        ...(port && { port }),
+        dependsOn: dependencyNames(service.depends_on).filter(dependency => dependency in merged),
+        ...(healthCheck && { healthCheck }),
+        profiles,
+      };
+    });
+
+    return {
+      name: base.name || path.basename(dirPath),
+      files: overrideName ? [fileName, overrideName] : [fileName],
+      services,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,381 @@
+import net from 'net';
+import readline from 'readline';
+import path from 'path';
+import { chmod, mkdir, unlink } from 'fs/promises';
+import type { Service, Group } from '../shared/types';
+import { RpcError } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { eventBus, appEventTypes, type AppEventType, type AppEventPayload } from '../shared/events';
+import { config } from '../shared/config';
+import { RPC_VERSION, RpcErrorCode, RpcMethods, encodeMessage } from '../shared/rpc';
+import type { RpcMessage, RpcMethod, RpcParams, RpcRequest } from '../shared/rpc';
+import type { ProcessManagerInterface } from '../core/processManager';
+
+const log = createServiceLogger('ControlServer');
+
+const DEFAULT_TAIL_LIMIT = 100;
+
+export interface ControlServerOptions {
+  storageService: {
+    getServices(): Promise<Service[]>;
+    getGroups(): Promise<Group[]>;
+  };
+  processManager: Pick<
+    ProcessManagerInterface,
+    | 'startService'
+    | 'stopService'
+    | 'restartService'
+    | 'startGroup'
+    | 'stopGroup'
+    | 'getServiceStatus'
+    | 'getServiceHealth'
+    | 'getServicePorts'
+    | 'getServiceResources'
+    | 'readLogs'
+  >;
+  socketPath?: string;
+}
+
+interface Connection {
+  socket: net.Socket;
+  subscriptions: Map<string, () => void>; // subscription id -> unsubscribe
+}
+
+type MethodHandler = (params: RpcParams, connection: Connection) => Promise<unknown>;
+
+function requireString(params: RpcParams, name: string): string {
+  const value = params[name];
+  if (typeof value !== 'string' || !value) {
+    throw new RpcError(`Missing parameter: ${name}`, RpcErrorCode.InvalidParams);
+  }
+  return value;
+}
+
+function optionalDate(params: RpcParams, name: string): Date | undefined {
+  const value = params[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    throw new RpcError(`Invalid date for parameter: ${name}`, RpcErrorCode.InvalidParams);
+  }
+  return date;
+}
+
+// Matches by id first, then case-insensitively by name
+function findByIdOrName<T extends { id: string; name: string }>(items: T[], key: string, kind: string): T {
+  const item = items.find(i => i.id === key) ?? items.find(i => i.name.toLowerCase() === key.toLowerCase());
+  if (!item) {
+    throw new RpcError(`Unknown ${kind}: ${key}`, RpcErrorCode.NotFound);
+  }
+  return item;
+}
+
+// JSON-RPC endpoint on a Unix domain socket (~/.runbar/runbar.sock) so
+// scripts and the CLI can drive the running app. The socket is only
+// accessible to the current user.
+export class ControlServer {
+  private server: net.Server | null = null;
+  private connections: Set<Connection> = new Set();
+  private options: ControlServerOptions;
+  private socketPath: string;
+  private nextSubscriptionId = 1;
+  private methods: Record<RpcMethod, MethodHandler>;
+
+  constructor(options: ControlServerOptions) {
+    this.options = options;
+    this.socketPath = options.socketPath ?? config.getSocketPath();
+    this.methods = this.createMethods();
+  }
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  async start(): Promise<void> {
+    await mkdir(path.dirname(this.socketPath), { recursive: true, mode: 0o700 });
+    await this.removeStaleSocket();
+
+    const server = net.createServer(socket => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    // listen() creates the socket with the process umask; restrict it to the
+    // owner as soon as it exists
+    await chmod(this.socketPath, 0o600);
+
+    server.on('error', (error) => {
+      log.error('Control socket error', error);
+    });
+
+    this.server = server;
+    log.info('Control socket listening', { socketPath: this.socketPath });
+  }
+
+  async stop(): Promise<void> {
+    for (const connection of this.connections) {
+      this.closeConnection(connection);
+      connection.socket.destroy();
+    }
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      log.info('Control socket closed');
+    }
+
+    await unlink(this.socketPath).catch(() => undefined);
+  }
+
+  // A socket file left behind by a crashed instance blocks listen(); one that
+  // still accepts connections belongs to another running instance
+  private async removeStaleSocket(): Promise<void> {
+    const inUse = await new Promise<boolean>((resolve) => {
+      const probe = net.connect(this.socketPath);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+
+    if (inUse) {
+      throw new RpcError(`Another Runbar instance is listening on ${this.socketPath}`, RpcErrorCode.OperationFailed);
+    }
+
+    await unlink(this.socketPath).catch(() => undefined);
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const connection: Connection = { socket, subscriptions: new Map() };
+    this.connections.add(connection);
+    log.debug('Control client connected');
+
+    const lines = readline.createInterface({ input: socket, crlfDelay: Infinity });
+    lines.on('line', (line) => {
+      if (line.trim()) {
+        this.handleLine(connection, line);
+      }
+    });
+
+    socket.on('error', (error) => {
+      log.debug('Control client error', { error });
+    });
+
+    socket.on('close', () => {
+      this.closeConnection(connection);
+      log.debug('Control client disconnected');
+    });
+  }
+
+  private closeConnection(connection: Connection): void {
+    for (const unsubscribe of connection.subscriptions.values()) {
+      unsubscribe();
+    }
+    connection.subscriptions.clear();
+    this.connections.delete(connection);
+  }
+
+  private send(connection: Connection, message: RpcMessage): void {
+    if (!connection.socket.destroyed) {
+      connection.socket.write(encodeMessage(message));
+    }
+  }
+
+  private async handleLine(connection: Connection, line: string): Promise<void> {
+    let request: RpcRequest;
+    try {
+      request = JSON.parse(line) as RpcRequest;
+    } catch (error) {
+      this.send(connection, {
+        jsonrpc: RPC_VERSION,
+        id: null,
+        error: { code: RpcErrorCode.ParseError, message: 'Parse error' },
+      });
+      return;
+    }
+
+    const isObject = typeof request === 'object' && request !== null;
+    const id = (isObject ? request.id : undefined) ?? null;
+    try {
+      if (!isObject || request.jsonrpc !== RPC_VERSION || typeof request.method !== 'string') {
+        throw new RpcError('Invalid request', RpcErrorCode.InvalidRequest);
+      }
+
+      if (!(RpcMethods as readonly string[]).includes(request.method)) {
+        throw new RpcError(`Method not found: ${request.method}`, RpcErrorCode.MethodNotFound);
+      }
+
+      const result = await this.methods[request.method as RpcMethod](request.params ?? {}, connection);
+      // Requests without an id are notifications and get no response
+      if (request.id !== undefined) {
+        this.send(connection, { jsonrpc: RPC_VERSION, id, result: result ?? null });
+      }
+    } catch (error) {
+      const rpcError = error instanceof RpcError
+        ? error
+        : new RpcError((error as Error).message, RpcErrorCode.InternalError);
+      if (!(error instanceof RpcError)) {
+        log.warn('Control request failed', { method: request.method, error: error as Error });
+      }
+
+      this.send(connection, {
+        jsonrpc: RPC_VERSION,
+        id,
+        error: {
+          code: rpcError.rpcCode,
+          message: rpcError.message,
+          ...(rpcError.details !== undefined && { data: rpcError.details }),
+        },
+      });
+    }
+  }
+
+  private async findService(params: RpcParams): Promise<Service> {
+    return findByIdOrName(await this.options.storageService.getServices(), requireString(params, 'service'), 'service');
+  }
+
+  private async findGroup(params: RpcParams): Promise<Group> {
+    return findByIdOrName(await this.options.storageService.getGroups(), requireString(params, 'group'), 'group');
+  }
+
+  private describeService(service: Service) {
+    const { processManager } = this.options;
+    return {
+      ...service,
+      status: processManager.getServiceStatus(service.id),
+      health: processManager.getServiceHealth(service.id),
+      ports: processManager.getServicePorts(service.id),
+      usage: processManager.getServiceResources(service.id).at(-1) ?? null,
+    };
+  }
+
+  private subscribe<T extends AppEventType>(
+    connection: Connection,
+    type: T,
+    listener: (payload: AppEventPayload[T]) => void,
+    subscriptionId = `sub-${this.nextSubscriptionId++}`
+  ): string {
+    eventBus.on(type, listener);
+    const previous = connection.subscriptions.get(subscriptionId);
+    connection.subscriptions.set(subscriptionId, () => {
+      previous?.();
+      eventBus.off(type, listener);
+    });
+    return subscriptionId;
+  }
+
+  private createMethods(): Record<RpcMethod, MethodHandler> {
+    const { processManager, storageService } = this.options;
+
+    const assertSuccess = (success: boolean, action: string, service: Service) => {
+      if (!success) {
+        throw new RpcError(`Failed to ${action} ${service.name}`, RpcErrorCode.OperationFailed);
+      }
+    };
+
+    return {
+      'ping': async () => ({ pong: true, pid: process.pid, version: config.app.version }),
+
+      'services.list': async () => (await storageService.getServices()).map(s => this.describeService(s)),
+
+      'services.start': async (params) => {
+        const service = await this.findService(params);
+        assertSuccess(await processManager.startService(service), 'start', service);
+        return this.describeService(service);
+      },
+
+      'services.stop': async (params) => {
+        const service = await this.findService(params);
+        assertSuccess(await processManager.stopService(service), 'stop', service);
+        return this.describeService(service);
+      },
+
+      'services.restart': async (params) => {
+        const service = await this.findService(params);
+        assertSuccess(await processManager.restartService(service), 'restart', service);
+        return this.describeService(service);
+      },
+
+      // Rolling resource history of a running service, oldest first
+      'services.resources': async (params) => {
+        const service = await this.findService(params);
+        return { samples: processManager.getServiceResources(service.id) };
+      },
+
+      'groups.list': async () => storageService.getGroups(),
+
+      'groups.start': async (params) => {
+        const group = await this.findGroup(params);
+        return processManager.startGroup(group, await storageService.getServices());
+      },
+
+      'groups.stop': async (params) => {
+        const group = await this.findGroup(params);
+        return processManager.stopGroup(group, await storageService.getServices());
+      },
+
+      // Returns recent persisted lines; with follow, new lines arrive as
+      // 'logs.entry' notifications until unsubscribed
+      'logs.tail': async (params, connection) => {
+        const service = await this.findService(params);
+        const since = optionalDate(params, 'since');
+        const limit = typeof params['limit'] === 'number' ? params['limit'] : DEFAULT_TAIL_LIMIT;
+        const entries = await processManager.readLogs(service.id, { limit, ...(since && { since }) });
+
+        if (!params['follow']) {
+          return { entries };
+        }
+
+        const subscription = this.subscribe(connection, 'service:log-update', (payload) => {
+          if (payload.service.id === service.id) {
+            this.send(connection, {
+              jsonrpc: RPC_VERSION,
+              method: 'logs.entry',
+              params: { subscription, service: service.id, entry: payload.entry },
+            });
+          }
+        });
+        return { entries, subscription };
+      },
+
+      // Forwards EventBus events as 'event' notifications; defaults to every event
+      'events.subscribe': async (params, connection) => {
+        const requested = params['events'] ?? appEventTypes;
+        if (!Array.isArray(requested) || requested.some(type => !appEventTypes.includes(type))) {
+          throw new RpcError('Unknown event type', RpcErrorCode.InvalidParams, { known: appEventTypes });
+        }
+
+        let subscription: string | undefined;
+        for (const type of requested as AppEventType[]) {
+          subscription = this.subscribe(connection, type, (payload) => {
+            this.send(connection, {
+              jsonrpc: RPC_VERSION,
+              method: 'event',
+              params: { subscription: subscription!, type, payload: payload as unknown },
+            });
+          }, subscription);
+        }
+        return { subscription: subscription ?? null, events: requested };
+      },
+
+      'events.unsubscribe': async (params, connection) => {
+        const subscription = requireString(params, 'subscription');
+        const unsubscribe = connection.subscriptions.get(subscription);
+        if (!unsubscribe) {
+          throw new RpcError(`Unknown subscription: ${subscription}`, RpcErrorCode.NotFound);
+        }
+        unsubscribe();
+        connection.subscriptions.delete(subscription);
+        return { unsubscribed: subscription };
+      },
+    };
+  }
+}
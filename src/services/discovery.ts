@@ -3,6 +3,11 @@ import path from 'path';
 import type { DiscoveredService, ServiceDiscoveryOptions, ProjectType } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
 import { config } from '../shared/config';
+import { readWorkspace } from './workspaces';
+import { readProcfile } from './procfile';
+import { readComposeProject } from './compose';
+import { detectPackageManager, dependenciesInstalled, installCommand, runScriptCommand, type PackageManagerInfo } from './packageManagers';
+import { inferPythonProject } from './python';
 
 const log = createServiceLogger('Discovery');
 
@@ -23,7 +28,9 @@ export class ServiceDiscoveryService {
     
     try {
       const discoveredServices: DiscoveredService[] = [];
-      await this.scanDirectory(rootPath, 0, discoveredServices);
+      if (!(await this.checkForWorkspace(rootPath, discoveredServices))) {
+        await this.scanDirectory(rootPath, 0, discoveredServices);
+      }
       
       log.info('Service discovery completed', { 
         rootPath, 
@@ -59,10 +66,25 @@ export class ServiceDiscoveryService {
             continue;
           }
           
-          // Check if this directory contains a project marker
+          // Check if this directory contains a project marker. A monorepo
+          // root stands for the packages inside it and a Procfile for the
+          // processes it declares, so scanning stops at any of them. Compose
+          // services come on top, replacing the marker's single
+          // "docker-compose up" when the compose file is the marker.
           const discoveredService = await this.checkForProjectMarker(fullPath);
-          if (discoveredService) {
-            discoveredServices.push(discoveredService);
+          if (discoveredService && await this.checkForWorkspace(fullPath, discoveredServices)) {
+            continue;
+          }
+
+          const found = await this.checkForProcfile(fullPath, discoveredService);
+          const composeServices = await this.checkForCompose(fullPath);
+          if (found.length === 0 && discoveredService && (discoveredService.projectType !== 'docker' || composeServices.length === 0)) {
+            found.push(discoveredService);
+          }
+          found.push(...composeServices);
+
+          if (found.length > 0) {
+            discoveredServices.push(...found);
           } else {
             // Recursively scan subdirectories
             await this.scanDirectory(fullPath, depth + 1, discoveredServices);
@@ -74,6 +96,83 @@ export class ServiceDiscoveryService {
     }
   }
 
+  // Adds a monorepo's root and each runnable package in it, grouped under the
+  // monorepo; false when the directory is not a monorepo root
+  private async checkForWorkspace(dirPath: string, discoveredServices: DiscoveredService[]): Promise<boolean> {
+    const workspace = await readWorkspace(dirPath, {
+      ignorePatterns: this.options.ignorePatterns || [],
+      maxDepth: this.options.maxDepth || 5,
+    });
+    if (!workspace) {
+      return false;
+    }
+
+    const reference = { name: workspace.name, path: workspace.path, tool: workspace.tool };
+    const root = await this.checkForProjectMarker(dirPath);
+    if (root) {
+      discoveredServices.push({ ...root, packageManager: workspace.packageManager, workspace: reference });
+    }
+
+    const packageManagerInfo = { packageManager: workspace.packageManager, root: workspace.path };
+    for (const project of workspace.projects) {
+      const warnings = await this.checkDependencies(project.path, packageManagerInfo);
+      discoveredServices.push({
+        name: project.name,
+        path: project.path,
+        command: project.command,
+        projectType: 'nodejs',
+        configFile: workspace.tool === 'nx' ? 'project.json' : 'package.json',
+        packageManager: workspace.packageManager,
+        scripts: project.scripts,
+        workspace: reference,
+        ...(warnings.length > 0 && { warnings }),
+      });
+    }
+
+    log.info('Found monorepo workspace', { dirPath, tool: workspace.tool, projects: workspace.projects.length });
+    return true;
+  }
+
+  // One service per process type, named after the project so processes of
+  // different projects stay apart
+  private async checkForProcfile(dirPath: string, project: DiscoveredService | null): Promise<DiscoveredService[]> {
+    const procfile = await readProcfile(dirPath);
+    if (!procfile) {
+      return [];
+    }
+
+    const projectName = project?.name || path.basename(dirPath);
+    return procfile.entries.map(entry => ({
+      name: `${projectName} ${entry.name}`,
+      path: dirPath,
+      command: entry.command,
+      projectType: project?.projectType ?? 'unknown',
+      configFile: procfile.fileName,
+      ...(project?.packageManager && { packageManager: project.packageManager }),
+      ...(project?.warnings && { warnings: project.warnings }),
+    }));
+  }
+
+  private async checkForCompose(dirPath: string): Promise<DiscoveredService[]> {
+    const project = await readComposeProject(dirPath);
+    if (!project) {
+      return [];
+    }
+
+    const serviceName = (name: string) => `${project.name} ${name}`;
+    return project.services.map(service => ({
+      name: serviceName(service.name),
+      path: dirPath,
+      command: service.command,
+      projectType: 'docker',
+      configFile: project.files.join(', '),
+      packageManager: 'docker-compose',
+      ...(service.port && { port: service.port }),
+      ...(service.dependsOn.length > 0 && { dependsOn: service.dependsOn.map(serviceName) }),
+      ...(service.healthCheck && { healthCheck: service.healthCheck }),
+    }));
+  }
+
   private shouldIgnoreDirectory(dirName: string): boolean {
     return (this.options.ignorePatterns || []).some(pattern => 
       dirName.includes(pattern) || new RegExp(pattern).test(dirName)
@@ -99,17 +198,22 @@ export class ServiceDiscoveryService {
     let projectType: ProjectType = 'unknown';
     let packageManager = '';
     let scripts: Record<string, string> = {};
+    let port: number | undefined;
+    const warnings: string[] = [];
 
     try {
       switch (configFile) {
-        case 'package.json':
+        case 'package.json': {
           projectType = 'nodejs';
-          packageManager = 'npm';
+          const packageManagerInfo = await detectPackageManager(dirPath);
+          packageManager = packageManagerInfo.packageManager;
           const packageData = await this.parsePackageJson(dirPath);
           projectName = packageData.name || dirName;
           scripts = packageData.scripts || {};
-          command = this.determineNodeCommand(scripts);
+          command = this.determineNodeCommand(scripts, packageManagerInfo);
+          warnings.push(...await this.checkDependencies(dirPath, packageManagerInfo));
           break;
+        }
 
         case 'Gemfile':
           projectType = 'ruby';
@@ -130,10 +234,16 @@ export class ServiceDiscoveryService {
           break;
 
         case 'requirements.txt':
+        case 'pyproject.toml':
+        case 'Pipfile': {
           projectType = 'python';
-          packageManager = 'pip';
-          command = 'python app.py';
+          const pythonProject = await inferPythonProject(dirPath);
+          projectName = pythonProject.name || dirName;
+          packageManager = pythonProject.packageManager;
+          command = pythonProject.command;
+          port = pythonProject.port;
           break;
+        }
 
         case 'pom.xml':
           projectType = 'java';
@@ -169,6 +279,8 @@ export class ServiceDiscoveryService {
       configFile,
       packageManager,
       scripts,
+      ...(port && { port }),
+      ...(warnings.length > 0 && { warnings }),
     };
   }
 
@@ -178,7 +290,7 @@ export class ServiceDiscoveryService {
     return JSON.parse(packageContent);
   }
 
-  private determineNodeCommand(scripts: Record<string, string>): string {
+  private determineNodeCommand(scripts: Record<string, string>, { packageManager }: PackageManagerInfo): string {
     const scriptNames = Object.keys(scripts);
     
     // Priority order for scripts
@@ -186,16 +298,23 @@ export class ServiceDiscoveryService {
     
     for (const script of priorityScripts) {
       if (scriptNames.includes(script)) {
-        return `npm run ${script}`;
+        return runScriptCommand(packageManager, script);
       }
     }
     
     // Fallback to first available script
     if (scriptNames.length > 0) {
-      return `npm run ${scriptNames[0]}`;
+      return runScriptCommand(packageManager, scriptNames[0]!);
     }
     
-    return 'npm start';
+    return runScriptCommand(packageManager, 'start');
+  }
+
+  private async checkDependencies(dirPath: string, packageManagerInfo: PackageManagerInfo): Promise<string[]> {
+    if (await dependenciesInstalled(dirPath, packageManagerInfo)) {
+      return [];
+    }
+    return [`Dependencies are not installed; run \`${installCommand(packageManagerInfo.packageManager)}\` in ${packageManagerInfo.root}`];
   }
 
   async validateServicePath(servicePath: string): Promise<boolean> {
@@ -0,0 +1,145 @@
+import path from 'path';
+import { readFile, stat } from 'fs/promises';
+import { createServiceLogger } from '../shared/logger';
+
+const log = createServiceLogger('PackageManagers');
+
+// Yarn 2+ ("berry") can install without node_modules, so it is told apart
+// from classic Yarn when checking whether dependencies are installed
+export type PackageManager = 'npm' | 'yarn' | 'yarn-berry' | 'pnpm' | 'bun';
+
+export interface PackageManagerInfo {
+  packageManager: PackageManager;
+  root: string; // where the lockfile or packageManager field was found
+}
+
+const LOCKFILES: [string, PackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(() => true, () => false);
+}
+
+async function readPackageJson(dirPath: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dirPath, 'package.json'), 'utf-8')) as Record<string, unknown>;
+  } catch (error) {
+    return null;
+  }
+}
+
+// The packageManager field as Corepack writes it: "<name>@<version>[+hash]"
+export function parsePackageManagerField(value: unknown): PackageManager | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.match(/^(npm|yarn|pnpm|bun)@(\d+)/);
+  if (!match) {
+    return null;
+  }
+  if (match[1] === 'yarn') {
+    return parseInt(match[2]!, 10) >= 2 ? 'yarn-berry' : 'yarn';
+  }
+  return match[1] as PackageManager;
+}
+
+async function isYarnBerry(dirPath: string): Promise<boolean> {
+  if (await fileExists(path.join(dirPath, '.yarnrc.yml'))) {
+    return true;
+  }
+
+  try {
+    // Berry lockfiles are YAML with a __metadata block; classic ones are not
+    return (await readFile(path.join(dirPath, 'yarn.lock'), 'utf-8')).includes('__metadata:');
+  } catch (error) {
+    return false;
+  }
+}
+
+async function detectIn(dirPath: string): Promise<PackageManager | null> {
+  const declared = parsePackageManagerField((await readPackageJson(dirPath))?.['packageManager']);
+  if (declared) {
+    return declared;
+  }
+
+  for (const [lockfile, packageManager] of LOCKFILES) {
+    if (await fileExists(path.join(dirPath, lockfile))) {
+      return packageManager === 'yarn' && await isYarnBerry(dirPath) ? 'yarn-berry' : packageManager;
+    }
+  }
+  return null;
+}
+
+// Looks in the project and then its parents, since a monorepo keeps its
+// lockfile at the root; the search ends at the repository root. Defaults to
+// npm when nothing says otherwise.
+export async function detectPackageManager(dirPath: string): Promise<PackageManagerInfo> {
+  let current = path.resolve(dirPath);
+
+  for (;;) {
+    const packageManager = await detectIn(current);
+    if (packageManager) {
+      return { packageManager, root: current };
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current || await fileExists(path.join(current, '.git'))) {
+      break;
+    }
+    current = parent;
+  }
+
+  log.debug('No lockfile found, assuming npm', { dirPath });
+  return { packageManager: 'npm', root: path.resolve(dirPath) };
+}
+
+export function runScriptCommand(packageManager: PackageManager, script: string): string {
+  switch (packageManager) {
+    case 'yarn':
+    case 'yarn-berry':
+      return `yarn ${script}`;
+    case 'pnpm':
+      return `pnpm run ${script}`;
+    case 'bun':
+      return `bun run ${script}`;
+    default:
+      return `npm run ${script}`;
+  }
+}
+
+export function installCommand(packageManager: PackageManager): string {
+  return `${packageManager === 'yarn-berry' ? 'yarn' : packageManager} install`;
+}
+
+// Dependencies count as installed when node_modules exists in the project
+// or at the root its package manager installs into (hoisted monorepos), or
+// when Yarn Plug'n'Play has written its loader
+export async function dependenciesInstalled(dirPath: string, info: PackageManagerInfo): Promise<boolean> {
+  const packageJson = await readPackageJson(dirPath);
+  const dependencyCount = ['dependencies', 'devDependencies'].reduce((count, field) => {
+    const deps = packageJson?.[field];
+    return count + (deps && typeof deps === 'object' ? Object.keys(deps).length : 0);
+  }, 0);
+  if (dependencyCount === 0) {
+    return true;
+  }
+
+  const candidates = [
+    path.join(dirPath, 'node_modules'),
+    path.join(info.root, 'node_modules'),
+    ...(info.packageManager === 'yarn-berry' ? [path.join(info.root, '.pnp.cjs')] : []),
+  ];
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
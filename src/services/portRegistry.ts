@@ -0,0 +1,60 @@
+import type { Service, PortRange } from '../shared/types';
+import { ValidationError } from '../shared/types';
+import { isPortInUse } from '../core/ports';
+
+export interface PortOverlap {
+  port: number;
+  serviceIds: string[];
+}
+
+// Which saved service claims which port. A port belongs to at most one
+// service, so services that default to the same port are caught when saved
+// rather than when the second one fails to start.
+export class PortRegistry {
+  private claims: Map<number, Service[]> = new Map();
+
+  constructor(services: Service[]) {
+    for (const service of services) {
+      if (service.port) {
+        this.claims.set(service.port, [...(this.claims.get(service.port) ?? []), service]);
+      }
+    }
+  }
+
+  getClaimants(port: number): Service[] {
+    return this.claims.get(port) ?? [];
+  }
+
+  isClaimed(port: number, exceptServiceId?: string): boolean {
+    return this.getClaimants(port).some(service => service.id !== exceptServiceId);
+  }
+
+  // Overlaps already in the saved config, e.g. from a hand-edited file
+  findOverlaps(): PortOverlap[] {
+    return [...this.claims.entries()]
+      .filter(([, services]) => services.length > 1)
+      .map(([port, services]) => ({ port, serviceIds: services.map(s => s.id) }));
+  }
+
+  assertAvailable(service: Pick<Service, 'id' | 'port'>): void {
+    if (!service.port) {
+      return;
+    }
+
+    const other = this.getClaimants(service.port).find(s => s.id !== service.id);
+    if (other) {
+      throw new ValidationError(`Port ${service.port} is already claimed by '${other.name}'`, 'port', service.port);
+    }
+  }
+
+  // First port in the range that no service claims and nothing is listening on
+  async allocate(range: PortRange, isInUse: (port: number) => Promise<boolean> = isPortInUse): Promise<number> {
+    for (let port = range.start; port <= range.end; port++) {
+      if (!this.isClaimed(port) && !(await isInUse(port))) {
+        return port;
+      }
+    }
+
+    throw new ValidationError(`No free port left in ${range.start}-${range.end}`, 'portRange', range);
+  }
+}
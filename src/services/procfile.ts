@@ -0,0 +1,91 @@
+import path from 'path';
+import { readFile } from 'fs/promises';
+import type { Service } from '../shared/types';
+import { slugify } from '../core/serviceReferences';
+
+// Procfile.dev wins, as tools like foreman and overmind are pointed at it for
+// local development while Procfile describes production
+export const PROCFILE_NAMES = ['Procfile.dev', 'Procfile'];
+
+const ENTRY_PATTERN = /^([A-Za-z0-9_-]+):\s*(.+)$/;
+
+export interface ProcfileEntry {
+  name: string; // the process type, e.g. "web" or "worker"
+  command: string;
+}
+
+export function parseProcfile(content: string): ProcfileEntry[] {
+  const entries: ProcfileEntry[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(ENTRY_PATTERN);
+    if (match && !entries.some(entry => entry.name === match[1])) {
+      entries.push({ name: match[1]!, command: match[2]!.trim() });
+    }
+  }
+
+  return entries;
+}
+
+export function formatProcfile(entries: ProcfileEntry[]): string {
+  return entries.map(entry => `${entry.name}: ${entry.command}\n`).join('');
+}
+
+export async function readProcfile(dirPath: string): Promise<{ fileName: string; entries: ProcfileEntry[] } | null> {
+  for (const fileName of PROCFILE_NAMES) {
+    try {
+      const entries = parseProcfile(await readFile(path.join(dirPath, fileName), 'utf-8'));
+      if (entries.length > 0) {
+        return { fileName, entries };
+      }
+    } catch (error) {
+      // not there; try the next name
+    }
+  }
+  return null;
+}
+
+export function commonDirectory(paths: string[]): string {
+  const [first, ...rest] = paths.map(p => path.resolve(p).split(path.sep));
+  if (!first) {
+    return process.cwd();
+  }
+
+  let length = first.length;
+  for (const segments of rest) {
+    let shared = 0;
+    while (shared < length && shared < segments.length && segments[shared] === first[shared]) {
+      shared++;
+    }
+    length = shared;
+  }
+  return first.slice(0, length).join(path.sep) || path.sep;
+}
+
+function shellQuote(value: string): string {
+  return /^[A-Za-z0-9_./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// One entry per service, named after it, with commands run from the
+// service's own directory since a Procfile runs everything from its own
+export function procfileEntriesForServices(services: Service[], directory: string): ProcfileEntry[] {
+  const entries: ProcfileEntry[] = [];
+
+  for (const service of services) {
+    const base = slugify(service.name) || 'process';
+    let name = base;
+    for (let suffix = 2; entries.some(entry => entry.name === name); suffix++) {
+      name = `${base}-${suffix}`;
+    }
+
+    const relative = path.relative(directory, service.path);
+    entries.push({ name, command: relative ? `cd ${shellQuote(relative)} && ${service.command}` : service.command });
+  }
+
+  return entries;
+}
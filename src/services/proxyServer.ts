@@ -0,0 +1,327 @@
+import http from 'http';
+import net from 'net';
+import type { Service, ServiceStatus } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { config } from '../shared/config';
+import { escapeHtml } from '../shared/html';
+import { findReferencedService, slugify } from '../core/serviceReferences';
+import { probeTcp } from '../core/healthCheck';
+import type { ProcessManagerInterface } from '../core/processManager';
+
+const log = createServiceLogger('ProxyServer');
+
+const LISTEN_HOST = '127.0.0.1';
+const START_POLL_INTERVAL = 250;
+const CONNECT_PROBE_TIMEOUT = 1000;
+
+export interface ProxyServerOptions {
+  storageService: {
+    getServices(): Promise<Service[]>;
+  };
+  processManager: Pick<
+    ProcessManagerInterface,
+    'startService' | 'waitForReady' | 'getServiceStatus' | 'getServicePorts'
+  >;
+  port?: number;
+  domain?: string;
+  startOnRequest?: boolean;
+  startTimeout?: number;
+}
+
+type Route =
+  | { type: 'proxy'; service: Service; port: number }
+  | { type: 'page'; statusCode: number; title: string; message: string };
+
+// Reverse proxy on a single local port that routes by Host header, so
+// http://api.localhost:8080 reaches the "API" service wherever it listens.
+// Plain HTTP and WebSocket upgrades are forwarded; anything that cannot be
+// routed gets a status page listing the services.
+export class ProxyServer {
+  private server: http.Server | null = null;
+  private sockets: Set<net.Socket> = new Set();
+  private pendingStarts: Map<string, Promise<number | null>> = new Map();
+  private options: ProxyServerOptions;
+  private domain: string;
+
+  constructor(options: ProxyServerOptions) {
+    this.options = options;
+    this.domain = (options.domain ?? config.defaults.proxy.domain).toLowerCase();
+  }
+
+  // The bound port, which differs from options.port when that was 0
+  getPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : null;
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        log.error('Proxy request failed', error as Error);
+        if (!response.headersSent) {
+          this.sendPage(response, { type: 'page', statusCode: 500, title: 'Proxy error', message: escapeHtml((error as Error).message) });
+        } else {
+          response.destroy();
+        }
+      });
+    });
+    server.on('upgrade', (request: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+      this.handleUpgrade(request, socket, head).catch((error) => {
+        log.warn('Proxy upgrade failed', { error: error as Error });
+        socket.destroy();
+      });
+    });
+    server.on('connection', (socket) => {
+      this.sockets.add(socket);
+      socket.once('close', () => this.sockets.delete(socket));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? config.defaults.proxy.port, LISTEN_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    server.on('error', (error) => {
+      log.error('Proxy server error', error);
+    });
+
+    this.server = server;
+    log.info('Proxy listening', { port: this.getPort(), domain: this.domain });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    log.info('Proxy closed');
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const route = await this.route(request);
+    if (route.type === 'page') {
+      this.sendPage(response, route);
+      return;
+    }
+
+    const upstream = http.request({
+      host: config.defaults.healthCheck.host,
+      port: route.port,
+      method: request.method,
+      path: request.url,
+      headers: this.forwardedHeaders(request),
+    }, (upstreamResponse) => {
+      response.writeHead(upstreamResponse.statusCode ?? 502, upstreamResponse.rawHeaders);
+      upstreamResponse.pipe(response);
+    });
+
+    upstream.on('error', (error) => {
+      log.debug('Upstream request failed', { service: route.service.name, port: route.port, error });
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      this.sendPage(response, {
+        type: 'page',
+        statusCode: 502,
+        title: `${route.service.name} is not responding`,
+        message: `Nothing answered on port ${route.port} (${escapeHtml((error as NodeJS.ErrnoException).code ?? error.message)}).`,
+      });
+    });
+    response.once('close', () => {
+      if (!response.writableFinished) {
+        upstream.destroy();
+      }
+    });
+
+    request.pipe(upstream);
+  }
+
+  private async handleUpgrade(request: http.IncomingMessage, socket: net.Socket, head: Buffer): Promise<void> {
+    const route = await this.route(request);
+    if (route.type === 'page') {
+      socket.end(`HTTP/1.1 ${route.statusCode} ${http.STATUS_CODES[route.statusCode]}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+
+    const upstream = net.connect({ host: config.defaults.healthCheck.host, port: route.port });
+    upstream.once('connect', () => {
+      const headers = this.forwardedHeaders(request);
+      const lines = [`${request.method} ${request.url} HTTP/${request.httpVersion}`];
+      for (const [name, value] of Object.entries(headers)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          lines.push(`${name}: ${item}`);
+        }
+      }
+      upstream.write(`${lines.join('\r\n')}\r\n\r\n`);
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+      upstream.pipe(socket).pipe(upstream);
+    });
+
+    upstream.on('error', () => socket.destroy());
+    socket.on('error', () => upstream.destroy());
+    socket.once('close', () => upstream.destroy());
+  }
+
+  // Decides where a request goes from its Host header. Page messages may
+  // contain markup, so anything taken from the request is escaped here.
+  private async route(request: http.IncomingMessage): Promise<Route> {
+    const hostname = (request.headers.host ?? '').replace(/:\d+$/, '').toLowerCase();
+    const services = await this.options.storageService.getServices();
+
+    if (!hostname.endsWith(`.${this.domain}`)) {
+      return { type: 'page', statusCode: 200, title: 'Runbar', message: 'Pick a service below.' };
+    }
+
+    const key = hostname.slice(0, -(this.domain.length + 1));
+    const service = findReferencedService(services, key);
+    if (!service) {
+      return { type: 'page', statusCode: 404, title: 'Unknown service', message: `No service is called '${escapeHtml(key)}'.` };
+    }
+
+    const port = this.getActivePort(service);
+    if (port) {
+      return { type: 'proxy', service, port };
+    }
+
+    if (!this.options.startOnRequest) {
+      return {
+        type: 'page',
+        statusCode: 503,
+        title: `${service.name} is ${this.options.processManager.getServiceStatus(service.id)}`,
+        message: `Start it from the tray menu or with <code>runbar start "${escapeHtml(service.name)}"</code>, then reload.`,
+      };
+    }
+
+    const startedPort = await this.startForRequest(service);
+    if (!startedPort) {
+      return {
+        type: 'page',
+        statusCode: 503,
+        title: `${service.name} did not start`,
+        message: 'Check its logs in the tray menu or with <code>runbar logs</code>.',
+      };
+    }
+
+    return { type: 'proxy', service, port: startedPort };
+  }
+
+  private getActivePort(service: Service): number | null {
+    const status = this.options.processManager.getServiceStatus(service.id);
+    if (status !== 'running') {
+      return null;
+    }
+    return this.options.processManager.getServicePorts(service.id)[0] ?? null;
+  }
+
+  // Concurrent requests for the same stopped service share one start
+  private startForRequest(service: Service): Promise<number | null> {
+    let pending = this.pendingStarts.get(service.id);
+    if (!pending) {
+      pending = this.startAndWaitForPort(service).finally(() => this.pendingStarts.delete(service.id));
+      this.pendingStarts.set(service.id, pending);
+    }
+    return pending;
+  }
+
+  private async startAndWaitForPort(service: Service): Promise<number | null> {
+    const { processManager } = this.options;
+    log.info('Starting service for proxied request', { service: service.name });
+
+    await processManager.startService(service);
+    if (!(await processManager.waitForReady(service.id))) {
+      return null;
+    }
+
+    // Without a health check the service counts as running once spawned, so
+    // wait until its port actually accepts connections
+    const deadline = Date.now() + (this.options.startTimeout ?? config.defaults.proxy.startTimeout);
+    while (Date.now() < deadline) {
+      const port = this.getActivePort(service);
+      if (port && await probeTcp(config.defaults.healthCheck.host, port, CONNECT_PROBE_TIMEOUT)) {
+        return port;
+      }
+      if (!this.isActive(processManager.getServiceStatus(service.id))) {
+        return null;
+      }
+      await new Promise(resolve => setTimeout(resolve, START_POLL_INTERVAL));
+    }
+
+    log.warn('Service did not open its port in time', { service: service.name });
+    return null;
+  }
+
+  private isActive(status: ServiceStatus): boolean {
+    return status === 'running' || status === 'starting';
+  }
+
+  private forwardedHeaders(request: http.IncomingMessage): http.OutgoingHttpHeaders {
+    const forwardedFor = request.headers['x-forwarded-for'];
+    const remoteAddress = request.socket.remoteAddress ?? '';
+    return {
+      ...request.headers,
+      'x-forwarded-for': forwardedFor ? `${forwardedFor}, ${remoteAddress}` : remoteAddress,
+      'x-forwarded-host': request.headers.host ?? '',
+      'x-forwarded-proto': 'http',
+    };
+  }
+
+  private sendPage(response: http.ServerResponse, page: Extract<Route, { type: 'page' }>): void {
+    this.renderStatusPage(page).then((html) => {
+      response.writeHead(page.statusCode, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      response.end(html);
+    }).catch((error) => {
+      log.error('Failed to render proxy status page', error as Error);
+      response.writeHead(page.statusCode, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end(page.title);
+    });
+  }
+
+  private async renderStatusPage(page: Extract<Route, { type: 'page' }>): Promise<string> {
+    const services = await this.options.storageService.getServices();
+    const proxyPort = this.getPort();
+    const rows = services.map((service) => {
+      const status = this.options.processManager.getServiceStatus(service.id);
+      const url = `http://${slugify(service.name)}.${this.domain}:${proxyPort}/`;
+      const ports = this.options.processManager.getServicePorts(service.id);
+      return `<tr><td><a href="${escapeHtml(url)}">${escapeHtml(service.name)}</a></td>`
+        + `<td class="${status}">${status}</td>`
+        + `<td>${ports.length > 0 ? ports.join(', ') : (service.port ?? '-')}</td></tr>`;
+    });
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(page.title)}</title>
+  <style>
+    body { font: 14px -apple-system, BlinkMacSystemFont, sans-serif; margin: 40px auto; max-width: 640px; color: #222; }
+    table { border-collapse: collapse; width: 100%; margin-top: 24px; }
+    th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #ddd; }
+    .running { color: #1a7f37; }
+    .error { color: #cf222e; }
+    code { background: #f3f3f3; padding: 1px 4px; border-radius: 3px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(page.title)}</h1>
+  <p>${page.message}</p>
+  <table>
+    <tr><th>Service</th><th>Status</th><th>Port</th></tr>
+    ${rows.join('\n    ')}
+  </table>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,214 @@
+import path from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+
+// How commands get into the project's environment: a project tool, a local
+// virtualenv, or whatever python3 is on PATH
+export type PythonRunner = 'uv' | 'poetry' | 'hatch' | 'pipenv' | 'venv' | 'system';
+
+export type PythonFramework = 'django' | 'fastapi' | 'flask';
+
+export interface PythonProject {
+  name?: string;
+  runner: PythonRunner;
+  packageManager: string;
+  framework: PythonFramework | null;
+  command: string;
+  port?: number;
+}
+
+const VIRTUALENV_DIRS = ['.venv', 'venv'];
+const ENTRY_SCRIPTS = ['main.py', 'app.py', 'run.py', 'server.py'];
+
+// Where application modules usually live; deeper or test code is not searched
+const SOURCE_SEARCH_DEPTH = 3;
+const SKIPPED_DIRS = new Set(['node_modules', '__pycache__', 'site-packages', 'tests', 'test', 'migrations', ...VIRTUALENV_DIRS]);
+const MAX_SOURCE_FILES = 200;
+const MAX_SOURCE_SIZE = 256 * 1024;
+
+const FRAMEWORK_PORTS: Record<PythonFramework, number> = {
+  django: 8000,
+  fastapi: 8000,
+  flask: 5000,
+};
+
+const APP_PATTERNS: [Exclude<PythonFramework, 'django'>, RegExp][] = [
+  ['fastapi', /^(\w+)\s*(?::\s*[\w.]+\s*)?=\s*(?:fastapi\.)?FastAPI\(/m],
+  ['flask', /^(\w+)\s*(?::\s*[\w.]+\s*)?=\s*(?:flask\.)?Flask\(/m],
+];
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(() => true, () => false);
+}
+
+async function readText(filePath: string): Promise<string> {
+  return readFile(filePath, 'utf-8').catch(() => '');
+}
+
+// Splits TOML into its [table] bodies; enough to tell which tools a
+// pyproject.toml configures without a full parser
+export function readTomlTables(content: string): Map<string, string> {
+  const tables = new Map<string, string>();
+  let current = '';
+
+  for (const line of content.split(/\r?\n/)) {
+    const header = line.match(/^\s*\[\[?\s*([^\]]+?)\s*\]\]?\s*(?:#.*)?$/);
+    if (header) {
+      current = header[1]!;
+      tables.set(current, tables.get(current) ?? '');
+    } else {
+      tables.set(current, `${tables.get(current) ?? ''}${line}\n`);
+    }
+  }
+
+  return tables;
+}
+
+function tomlString(body: string | undefined, key: string): string | undefined {
+  return body?.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, 'm'))?.[1];
+}
+
+async function detectRunner(dirPath: string, tables: Map<string, string>): Promise<{ runner: PythonRunner; venv?: string }> {
+  const names = [...tables.keys()];
+
+  if (await fileExists(path.join(dirPath, 'uv.lock')) || tables.has('tool.uv')) {
+    return { runner: 'uv' };
+  }
+  if (await fileExists(path.join(dirPath, 'poetry.lock')) || tables.has('tool.poetry')) {
+    return { runner: 'poetry' };
+  }
+  if (await fileExists(path.join(dirPath, 'hatch.toml')) || names.some(name => name.startsWith('tool.hatch'))) {
+    return { runner: 'hatch' };
+  }
+  if (await fileExists(path.join(dirPath, 'Pipfile'))) {
+    return { runner: 'pipenv' };
+  }
+
+  for (const venv of VIRTUALENV_DIRS) {
+    if (await fileExists(path.join(dirPath, venv, 'bin', 'python'))) {
+      return { runner: 'venv', venv };
+    }
+  }
+  return { runner: 'system' };
+}
+
+export function runInEnvironment(runner: PythonRunner, program: string, venv = '.venv'): string {
+  switch (runner) {
+    case 'uv':
+    case 'poetry':
+    case 'hatch':
+    case 'pipenv':
+      return `${runner} run ${program}`;
+    case 'venv':
+      return `${venv}/bin/${program}`;
+    default:
+      return program === 'python' ? 'python3' : program;
+  }
+}
+
+// Python files by depth, so the app object nearest the root wins
+async function listSourceFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+  let level = [dirPath];
+
+  for (let depth = 0; depth < SOURCE_SEARCH_DEPTH && level.length > 0 && files.length < MAX_SOURCE_FILES; depth++) {
+    const next: string[] = [];
+    for (const dir of level) {
+      const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+          next.push(path.join(dir, entry.name));
+        } else if (entry.isFile() && entry.name.endsWith('.py')) {
+          files.push(path.join(dir, entry.name));
+        }
+      }
+    }
+    level = next;
+  }
+
+  // Conventional entry points first within each directory level
+  const rank = (file: string) => {
+    const index = ENTRY_SCRIPTS.indexOf(path.basename(file));
+    return index === -1 ? ENTRY_SCRIPTS.length : index;
+  };
+  const depth = (file: string) => path.relative(dirPath, file).split(path.sep).length;
+  return files.slice(0, MAX_SOURCE_FILES).sort((a, b) => depth(a) - depth(b) || rank(a) - rank(b));
+}
+
+// The module and variable of the first FastAPI or Flask application object,
+// e.g. { module: 'app.main', variable: 'app' } for app/main.py
+export async function findApplication(
+  dirPath: string
+): Promise<{ framework: Exclude<PythonFramework, 'django'>; module: string; variable: string; srcLayout: boolean } | null> {
+  for (const file of await listSourceFiles(dirPath)) {
+    const size = await stat(file).then(s => s.size, () => Infinity);
+    if (size > MAX_SOURCE_SIZE) {
+      continue;
+    }
+
+    const source = await readText(file);
+    for (const [framework, pattern] of APP_PATTERNS) {
+      const match = source.includes(framework) ? source.match(pattern) : null;
+      if (match) {
+        const parts = path.relative(dirPath, file).replace(/\.py$/, '').split(path.sep);
+        const srcLayout = parts[0] === 'src' && parts.length > 1;
+        return {
+          framework,
+          module: (srcLayout ? parts.slice(1) : parts).join('.'),
+          variable: match[1]!,
+          srcLayout,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// Infers how to run a Python project in development: Django through
+// manage.py, FastAPI through uvicorn and Flask through its CLI, each inside
+// the project's tool or virtualenv, and otherwise the conventional entry script
+export async function inferPythonProject(dirPath: string): Promise<PythonProject> {
+  const tables = readTomlTables(await readText(path.join(dirPath, 'pyproject.toml')));
+  const { runner, venv } = await detectRunner(dirPath, tables);
+  const run = (program: string) => runInEnvironment(runner, program, venv);
+
+  const name = tomlString(tables.get('project'), 'name') ?? tomlString(tables.get('tool.poetry'), 'name');
+  const project = {
+    ...(name && { name }),
+    runner,
+    packageManager: runner === 'venv' || runner === 'system' ? 'pip' : runner,
+  };
+
+  if (await fileExists(path.join(dirPath, 'manage.py'))) {
+    return { ...project, framework: 'django', command: `${run('python')} manage.py runserver`, port: FRAMEWORK_PORTS.django };
+  }
+
+  const application = await findApplication(dirPath);
+  if (application?.framework === 'fastapi') {
+    const appDir = application.srcLayout ? ' --app-dir src' : '';
+    return {
+      ...project,
+      framework: 'fastapi',
+      command: `${run('uvicorn')} ${application.module}:${application.variable} --reload${appDir}`,
+      port: FRAMEWORK_PORTS.fastapi,
+    };
+  }
+  if (application?.framework === 'flask') {
+    // Flask puts the directory before the slash on sys.path, like --app-dir
+    const module = application.srcLayout ? `src/${application.module}` : application.module;
+    return {
+      ...project,
+      framework: 'flask',
+      command: `${run('flask')} --app ${module}:${application.variable} run --debug`,
+      port: FRAMEWORK_PORTS.flask,
+    };
+  }
+
+  let script = 'app.py';
+  for (const candidate of ENTRY_SCRIPTS) {
+    if (await fileExists(path.join(dirPath, candidate))) {
+      script = candidate;
+      break;
+    }
+  }
+  return { ...project, framework: null, command: `${run('python')} ${script}` };
+}
@@ -1,11 +1,13 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import type { Service, Group, Settings, ConfigData, StorageOptions } from '../shared/types';
+import type { Service, Group, Settings, ConfigData, StorageOptions, DiscoveredService } from '../shared/types';
 import { StorageError, ValidationError } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
 import { config } from '../shared/config';
 import { eventBus } from '../shared/events';
+import { PortRegistry } from './portRegistry';
+import { commonDirectory, formatProcfile, procfileEntriesForServices } from './procfile';
 
 const log = createServiceLogger('Storage');
 
@@ -109,14 +111,14 @@ export class StorageService {
 
   async addService(service: Omit<Service, 'id' | 'createdAt' | 'updatedAt'>): Promise<Service> {
     try {
-      const newService: Service = {
+      const services = await this.getServices();
+      const newService = await this.claimPort({
         ...service,
         id: uuidv4(),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-      };
+      }, services);
 
-      const services = await this.getServices();
       services.push(newService);
       await this.saveServices(services);
       
@@ -124,10 +126,59 @@ export class StorageService {
       return newService;
     } catch (error) {
       log.error('Failed to add service', error as Error);
+      // e.g. a port another service claims, which the user has to see
+      if (error instanceof ValidationError) {
+        throw error;
+      }
       throw new StorageError('Failed to add service', 'addService', { error });
     }
   }
 
+  // Saves services picked from discovery. Dependencies name other services,
+  // so they are resolved once the new ones have ids; a published
+  // port another service already claims is left off rather than failing.
+  async addDiscoveredServices(discovered: DiscoveredService[]): Promise<Service[]> {
+    const added = new Map<string, Service>();
+
+    for (const service of discovered) {
+      const registry = await this.getPortRegistry();
+      const port = service.port && !registry.isClaimed(service.port) ? service.port : undefined;
+      if (service.port && !port) {
+        log.warn(`Port ${service.port} is already claimed, adding ${service.name} without it`);
+      }
+
+      const saved = await this.addService({
+        name: service.name,
+        path: service.path,
+        command: service.command,
+        projectType: service.projectType,
+        ...(port && { port }),
+        ...(service.healthCheck && { healthCheck: service.healthCheck }),
+      });
+      added.set(service.name, saved);
+    }
+
+    // Dependencies come from the same compose file, so they share the
+    // service's directory; those imported earlier are found there by name
+    const services = await this.getServices();
+    const sameDirectory = (candidate: Service | undefined, servicePath: string) =>
+      candidate?.path === servicePath ? candidate : undefined;
+    for (const service of discovered) {
+      const dependencies = (service.dependsOn ?? [])
+        .map(name =>
+          sameDirectory(added.get(name), service.path)?.id ??
+          services.find(s => s.name === name && s.path === service.path)?.id
+        )
+        .filter((id): id is string => id !== undefined);
+      const saved = added.get(service.name);
+      if (saved && dependencies.length > 0) {
+        added.set(service.name, await this.updateService(saved.id, { dependencies }));
+      }
+    }
+
+    return [...added.values()];
+  }
+
   async updateService(id: string, updates: Partial<Service>): Promise<Service> {
     try {
       const services = await this.getServices();
@@ -137,11 +188,11 @@ export class StorageService {
         throw new ValidationError('Service not found', 'id', id);
       }
 
-      const updatedService = {
+      const updatedService = await this.claimPort({
         ...services[index]!,
         ...updates,
         updatedAt: new Date().toISOString(),
-      };
+      }, services);
 
       services[index] = updatedService;
       await this.saveServices(services);
@@ -150,10 +201,36 @@ export class StorageService {
       return updatedService;
     } catch (error) {
       log.error('Failed to update service', error as Error);
+      if (error instanceof ValidationError) {
+        throw error;
+      }
       throw new StorageError('Failed to update service', 'updateService', { error });
     }
   }
 
+  async getPortRegistry(): Promise<PortRegistry> {
+    return new PortRegistry(await this.getServices());
+  }
+
+  // Rejects a new port another service already claims, and gives autoPort
+  // services without a port the first free one in the configured range.
+  // Unchanged ports pass so existing overlaps don't block unrelated edits.
+  private async claimPort(service: Service, services: Service[]): Promise<Service> {
+    const registry = new PortRegistry(services.filter(s => s.id !== service.id));
+    if (service.port !== services.find(s => s.id === service.id)?.port) {
+      registry.assertAvailable(service);
+    }
+
+    if (!service.autoPort || service.port) {
+      return service;
+    }
+
+    const settings = await this.getSettings();
+    const port = await registry.allocate(settings.portRange ?? config.defaults.portRange);
+    log.info(`Allocated port ${port} to service: ${service.name}`);
+    return { ...service, port };
+  }
+
   async deleteService(id: string): Promise<void> {
     try {
       const services = await this.getServices();
@@ -163,6 +240,13 @@ export class StorageService {
         throw new ValidationError('Service not found', 'id', id);
       }
 
+      // Drop the deleted service from other services' dependencies
+      for (const service of filteredServices) {
+        if (service.dependencies?.includes(id)) {
+          service.dependencies = service.dependencies.filter(depId => depId !== id);
+        }
+      }
+
       await this.saveServices(filteredServices);
       
       // Remove from groups
@@ -339,6 +423,34 @@ export class StorageService {
     }
   }
 
+  // Writes the group's services as a Procfile when given a path; commands are
+  // relative to the Procfile's directory, or to the services' common
+  // directory when only the content is wanted
+  async exportGroupAsProcfile(groupId: string, filePath?: string): Promise<string> {
+    try {
+      const [groups, services] = await Promise.all([this.getGroups(), this.getServices()]);
+      const group = groups.find(g => g.id === groupId);
+      if (!group) {
+        throw new ValidationError('Group not found', 'id', groupId);
+      }
+
+      const members = group.services
+        .map(id => services.find(s => s.id === id))
+        .filter((service): service is Service => service !== undefined);
+      const directory = filePath ? path.dirname(path.resolve(filePath)) : commonDirectory(members.map(s => s.path));
+      const content = formatProcfile(procfileEntriesForServices(members, directory));
+
+      if (filePath) {
+        await fs.writeFile(filePath, content);
+        log.info('Exported group as Procfile', { group: group.name, filePath });
+      }
+      return content;
+    } catch (error) {
+      log.error('Failed to export Procfile', error as Error);
+      throw new StorageError('Failed to export Procfile', 'exportGroupAsProcfile', { error });
+    }
+  }
+
   async importConfig(configData: ConfigData): Promise<void> {
     try {
       // Validate imported data
@@ -383,12 +495,23 @@ export class StorageService {
         path: s.path || '',
         command: s.command || '',
         port: s.port,
+        autoPort: s.autoPort,
+        onPortConflict: s.onPortConflict,
         autoStart: s.autoStart || false,
         projectType: s.projectType || 'unknown',
         status: 'stopped', // Always start as stopped - ProcessManager will update this
         logs: s.logs || [],
         lastStarted: s.lastStarted,
         lastStopped: s.lastStopped,
+        restartPolicy: s.restartPolicy,
+        healthCheck: s.healthCheck,
+        dependencies: Array.isArray(s.dependencies) ? s.dependencies : undefined,
+        startupDelay: s.startupDelay,
+        env: s.env,
+        envFiles: Array.isArray(s.envFiles) ? s.envFiles : undefined,
+        useLoginShellEnv: s.useLoginShellEnv,
+        memoryThreshold: s.memoryThreshold,
+        detached: s.detached,
         createdAt: s.createdAt || new Date().toISOString(),
         updatedAt: s.updatedAt || new Date().toISOString(),
       };
@@ -397,6 +520,18 @@ export class StorageService {
         throw new ValidationError('Service missing required fields', `services[${index}]`, service);
       }
 
+      if (s.restartPolicy && !['never', 'on-failure', 'always'].includes(s.restartPolicy.mode)) {
+        throw new ValidationError('Invalid restart policy mode', `services[${index}].restartPolicy`, s.restartPolicy);
+      }
+
+      if (s.onPortConflict && !['prompt', 'fail', 'kill-and-restart', 'adopt', 'pick-next-free-port'].includes(s.onPortConflict)) {
+        throw new ValidationError('Invalid port conflict policy', `services[${index}].onPortConflict`, s.onPortConflict);
+      }
+
+      if (s.healthCheck && !['http', 'tcp', 'log', 'command'].includes(s.healthCheck.type)) {
+        throw new ValidationError('Invalid health check type', `services[${index}].healthCheck`, s.healthCheck);
+      }
+
       return validatedService;
     });
   }
@@ -442,6 +577,14 @@ export class StorageService {
       throw new ValidationError('Settings missing required fields', 'settings', settings);
     }
 
+    if (s.portRange && !(s.portRange.start > 0 && s.portRange.start <= s.portRange.end && s.portRange.end <= 65535)) {
+      throw new ValidationError('Invalid port range', 'settings.portRange', s.portRange);
+    }
+
+    if (s.proxy && (typeof s.proxy.enabled !== 'boolean' || (s.proxy.port !== undefined && !(s.proxy.port > 0 && s.proxy.port <= 65535)))) {
+      throw new ValidationError('Invalid proxy settings', 'settings.proxy', s.proxy);
+    }
+
     return s;
   }
 
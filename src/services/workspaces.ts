@@ -0,0 +1,260 @@
+import path from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import type { WorkspaceTool } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { detectPackageManager, type PackageManager } from './packageManagers';
+
+const log = createServiceLogger('Workspaces');
+
+// Scripts and Nx targets worth running as a service, most likely first;
+// packages with none of them are libraries
+const SCRIPT_PRIORITY = ['dev', 'start', 'serve', 'develop'];
+const NX_TARGET_PRIORITY = ['serve', 'dev', 'start', 'develop'];
+
+const LERNA_DEFAULT_PACKAGES = ['packages/*'];
+
+export interface WorkspaceProject {
+  name: string;
+  path: string;
+  command: string;
+  scripts: Record<string, string>;
+}
+
+export interface Workspace {
+  name: string;
+  path: string;
+  tool: WorkspaceTool;
+  packageManager: PackageManager;
+  projects: WorkspaceProject[];
+}
+
+export interface WorkspaceScanOptions {
+  ignorePatterns?: string[];
+  maxDepth?: number;
+}
+
+interface PackageJson {
+  name?: string;
+  scripts?: Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.warn('Ignoring unreadable workspace file', { filePath, error: error as Error });
+    }
+    return null;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return stat(filePath).then(() => true, () => false);
+}
+
+async function listDirectories(dirPath: string, options: WorkspaceScanOptions): Promise<string[]> {
+  try {
+    const entries = await readdir(dirPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && !(options.ignorePatterns ?? []).includes(entry.name))
+      .map(entry => path.join(dirPath, entry.name));
+  } catch (error) {
+    return [];
+  }
+}
+
+async function listDescendants(dirPath: string, options: WorkspaceScanOptions, depth = 0): Promise<string[]> {
+  if (depth >= (options.maxDepth ?? 5)) {
+    return [];
+  }
+
+  const children = await listDirectories(dirPath, options);
+  const nested = await Promise.all(children.map(child => listDescendants(child, options, depth + 1)));
+  return [...children, ...nested.flat()];
+}
+
+function segmentPattern(segment: string): RegExp {
+  const escaped = segment.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Expands the directory globs workspace configs use ("apps/*", "packages/**")
+// one path segment at a time
+async function expandPattern(rootPath: string, pattern: string, options: WorkspaceScanOptions): Promise<string[]> {
+  const segments = pattern.replace(/^\.\//, '').split('/').filter(segment => segment && segment !== '.');
+  let dirs = [rootPath];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (segment === '**') {
+        next.push(dir, ...(await listDescendants(dir, options)));
+      } else if (segment.includes('*')) {
+        const matcher = segmentPattern(segment);
+        next.push(...(await listDirectories(dir, options)).filter(child => matcher.test(path.basename(child))));
+      } else if (await fileExists(path.join(dir, segment))) {
+        next.push(path.join(dir, segment));
+      }
+    }
+    dirs = next;
+  }
+
+  return dirs;
+}
+
+// Directories matched by the patterns, minus those of "!" patterns
+export async function expandWorkspacePatterns(
+  rootPath: string,
+  patterns: string[],
+  options: WorkspaceScanOptions = {}
+): Promise<string[]> {
+  const included = new Set<string>();
+  const excluded = new Set<string>();
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    const dirs = await expandPattern(rootPath, negated ? pattern.slice(1) : pattern, options);
+    dirs.forEach(dir => (negated ? excluded : included).add(dir));
+  }
+
+  return [...included].filter(dir => !excluded.has(dir) && dir !== rootPath).sort();
+}
+
+export function pickScript(names: string[], priority = SCRIPT_PRIORITY): string | null {
+  return priority.find(name => names.includes(name)) ?? null;
+}
+
+export function workspaceCommand(
+  tool: WorkspaceTool,
+  packageManager: PackageManager,
+  project: string,
+  script: string
+): string {
+  switch (tool) {
+    case 'nx':
+      return `npx nx ${script} ${project}`;
+    case 'turbo':
+      return `npx turbo run ${script} --filter=${project}`;
+    case 'lerna':
+      return `npx lerna run ${script} --scope ${project}`;
+    default:
+      switch (packageManager) {
+        case 'pnpm':
+          return `pnpm --filter ${project} ${script}`;
+        case 'yarn':
+        case 'yarn-berry':
+          return `yarn workspace ${project} ${script}`;
+        case 'bun':
+          return `bun run --filter ${project} ${script}`;
+        default:
+          return `npm run ${script} --workspace ${project}`;
+      }
+  }
+}
+
+async function readPnpmPatterns(rootPath: string): Promise<string[] | null> {
+  try {
+    const content = parseYaml(await readFile(path.join(rootPath, 'pnpm-workspace.yaml'), 'utf-8')) as { packages?: unknown } | null;
+    return Array.isArray(content?.packages) ? content.packages.filter((p): p is string => typeof p === 'string') : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.warn('Ignoring unreadable pnpm-workspace.yaml', { rootPath, error: error as Error });
+    }
+    return null;
+  }
+}
+
+function packageJsonPatterns(packageJson: PackageJson | null): string[] | null {
+  const workspaces = packageJson?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  return workspaces?.packages ?? null;
+}
+
+async function readPackageProjects(dirs: string[]): Promise<{ name: string; path: string; scripts: Record<string, string> }[]> {
+  const projects = await Promise.all(dirs.map(async (dir) => {
+    const packageJson = await readJson<PackageJson>(path.join(dir, 'package.json'));
+    return packageJson ? { name: packageJson.name || path.basename(dir), path: dir, scripts: packageJson.scripts ?? {} } : null;
+  }));
+  return projects.filter((project): project is NonNullable<typeof project> => project !== null);
+}
+
+// Nx projects are declared by project.json files anywhere in the workspace,
+// with package.json scripts standing in as targets for the rest
+async function readNxProjects(
+  rootPath: string,
+  packageDirs: string[],
+  options: WorkspaceScanOptions
+): Promise<{ name: string; path: string; scripts: Record<string, string> }[]> {
+  const projects = new Map<string, { name: string; path: string; scripts: Record<string, string> }>();
+
+  for (const project of await readPackageProjects(packageDirs)) {
+    projects.set(project.path, project);
+  }
+
+  for (const dir of await listDescendants(rootPath, options)) {
+    const projectJson = await readJson<{ name?: string; targets?: Record<string, unknown> }>(path.join(dir, 'project.json'));
+    if (projectJson) {
+      const targets = Object.fromEntries(Object.keys(projectJson.targets ?? {}).map(target => [target, `nx ${target}`]));
+      const existing = projects.get(dir);
+      projects.set(dir, {
+        name: projectJson.name || existing?.name || path.basename(dir),
+        path: dir,
+        scripts: { ...existing?.scripts, ...targets },
+      });
+    }
+  }
+
+  return [...projects.values()];
+}
+
+// Reads a monorepo's workspace configuration and lists the packages in it
+// that can run as services, each with the command that runs just that
+// package. Returns null when the directory is not a monorepo root.
+export async function readWorkspace(rootPath: string, options: WorkspaceScanOptions = {}): Promise<Workspace | null> {
+  const packageJson = await readJson<PackageJson>(path.join(rootPath, 'package.json'));
+  const pnpmPatterns = await readPnpmPatterns(rootPath);
+  const lernaJson = await readJson<{ packages?: string[] }>(path.join(rootPath, 'lerna.json'));
+  const hasNx = await fileExists(path.join(rootPath, 'nx.json'));
+  const hasTurbo = await fileExists(path.join(rootPath, 'turbo.json'));
+
+  const patterns = pnpmPatterns
+    ?? packageJsonPatterns(packageJson)
+    ?? (lernaJson ? lernaJson.packages ?? LERNA_DEFAULT_PACKAGES : null);
+  if (!patterns && !hasNx) {
+    return null;
+  }
+
+  // pnpm only reads pnpm-workspace.yaml, whatever the lockfile says
+  const packageManager = pnpmPatterns ? 'pnpm' : (await detectPackageManager(rootPath)).packageManager;
+  const tool: WorkspaceTool = hasNx ? 'nx'
+    : hasTurbo ? 'turbo'
+    : lernaJson ? 'lerna'
+    : packageManager === 'yarn-berry' ? 'yarn'
+    : packageManager;
+
+  const packageDirs = await expandWorkspacePatterns(rootPath, patterns ?? [], options);
+  const candidates = tool === 'nx'
+    ? await readNxProjects(rootPath, packageDirs, options)
+    : await readPackageProjects(packageDirs);
+
+  const projects: WorkspaceProject[] = [];
+  for (const candidate of candidates) {
+    const script = pickScript(Object.keys(candidate.scripts), tool === 'nx' ? NX_TARGET_PRIORITY : SCRIPT_PRIORITY);
+    if (script) {
+      projects.push({ ...candidate, command: workspaceCommand(tool, packageManager, candidate.name, script) });
+    }
+  }
+
+  return {
+    name: packageJson?.name || path.basename(rootPath),
+    path: rootPath,
+    tool,
+    packageManager,
+    projects: projects.sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
@@ -55,6 +55,8 @@ export const defaultSettings = {
     'go.mod',
     'Cargo.toml',
     'requirements.txt',
+    'pyproject.toml',
+    'Pipfile',
     'pom.xml',
     'build.gradle',
     'docker-compose.yml',
@@ -73,6 +75,50 @@ export const processManagerDefaults = {
   gracefulShutdownTimeout: 5000,
 };
 
+// Persisted service log defaults (files live in <logDir>/<service-id>/)
+export const logPersistenceDefaults = {
+  maxFileSize: 5 * 1024 * 1024,
+  maxFileAge: 24 * 60 * 60 * 1000,
+  maxArchives: 10,
+  retention: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Restart policy defaults (services without a policy are never restarted)
+export const restartPolicyDefaults = {
+  mode: 'never' as const,
+  maxRetries: 5,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  crashLoopThreshold: 5,
+  crashLoopWindow: 30000,
+};
+
+// Resource samples are taken on the status polling interval
+export const resourceMonitorDefaults = {
+  historySize: 60,
+};
+
+// Ports handed out to services with autoPort, clear of the usual 3000/8080 defaults
+export const portRangeDefaults = {
+  start: 4000,
+  end: 4999,
+};
+
+// Reverse proxy defaults; hosts are <service>.<domain>
+export const proxyDefaults = {
+  port: 8080,
+  domain: 'localhost',
+  startTimeout: 30000,
+};
+
+// Health check defaults
+export const healthCheckDefaults = {
+  host: 'localhost',
+  interval: 1000,
+  timeout: 60000,
+  expectedStatus: 200,
+};
+
 // Discovery defaults
 export const discoveryDefaults = {
   maxDepth: 5,
@@ -112,6 +158,16 @@ export function getLogDir(): string {
   return require('path').join(getConfigDir(), 'logs');
 }
 
+// Get the control socket path
+export function getSocketPath(): string {
+  return require('path').join(getConfigDir(), 'runbar.sock');
+}
+
+// Get the ledger of running services, used to reattach after a restart
+export function getLedgerPath(configDir: string = getConfigDir()): string {
+  return require('path').join(configDir, 'processes.json');
+}
+
 // Configuration validation
 export function validateConfig(_config: unknown): boolean {
   try {
@@ -130,10 +186,18 @@ export const config = {
   defaults: {
     settings: defaultSettings,
     processManager: processManagerDefaults,
+    logPersistence: logPersistenceDefaults,
+    restartPolicy: restartPolicyDefaults,
+    healthCheck: healthCheckDefaults,
+    resourceMonitor: resourceMonitorDefaults,
+    portRange: portRangeDefaults,
+    proxy: proxyDefaults,
     discovery: discoveryDefaults,
   },
   getEnvironment: getEnvironmentConfig,
   getConfigDir,
   getLogDir,
+  getSocketPath,
+  getLedgerPath,
   validate: validateConfig,
 }; 
\ No newline at end of file
@@ -1,23 +1,38 @@
 import { EventEmitter } from 'events';
-import type { ServiceEvent, GroupEvent, Service, Group, DiscoveredService } from './types';
+import type {
+  ServiceEvent,
+  GroupEvent,
+  GroupServiceResult,
+  Service,
+  Group,
+  DiscoveredService,
+  ProcessExit,
+  LogEntry,
+} from './types';
 
 // Define event types
-export type AppEventType = 
-  | 'service:started'
-  | 'service:stopped'
-  | 'service:error'
-  | 'service:status-changed'
-  | 'service:log-update'
-  | 'group:started'
-  | 'group:stopped'
-  | 'group:error'
-  | 'app:ready'
-  | 'app:shutdown'
-  | 'config:changed'
-  | 'tray:update'
-  | 'scan:started'
-  | 'scan:completed'
-  | 'scan:error';
+export const appEventTypes = [
+  'service:started',
+  'service:stopped',
+  'service:error',
+  'service:status-changed',
+  'service:log-update',
+  'service:restarting',
+  'service:crash-loop',
+  'service:resource-alert',
+  'group:started',
+  'group:stopped',
+  'group:error',
+  'app:ready',
+  'app:shutdown',
+  'config:changed',
+  'tray:update',
+  'scan:started',
+  'scan:completed',
+  'scan:error',
+] as const;
+
+export type AppEventType = (typeof appEventTypes)[number];
 
 // Define event payloads
 export interface AppEventPayload {
@@ -25,7 +40,10 @@ export interface AppEventPayload {
   'service:stopped': ServiceEvent;
   'service:error': ServiceEvent;
   'service:status-changed': ServiceEvent;
-  'service:log-update': { service: Service; line: string; timestamp: Date };
+  'service:log-update': { service: Service; entry: LogEntry };
+  'service:restarting': ServiceEvent;
+  'service:crash-loop': ServiceEvent;
+  'service:resource-alert': ServiceEvent;
   'group:started': GroupEvent;
   'group:stopped': GroupEvent;
   'group:error': GroupEvent;
@@ -96,11 +114,12 @@ export class EventBus extends EventEmitter {
     });
   }
 
-  public emitServiceStopped(service: Service): void {
+  public emitServiceStopped(service: Service, exit?: ProcessExit): void {
     this.emit('service:stopped', {
       type: 'stopped',
       service,
       timestamp: new Date(),
+      ...(exit && { data: exit }),
     });
   }
 
@@ -113,9 +132,36 @@ export class EventBus extends EventEmitter {
     });
   }
 
+  public emitServiceRestarting(service: Service, attempt: number, delay: number, exit: ProcessExit): void {
+    this.emit('service:restarting', {
+      type: 'restarting',
+      service,
+      timestamp: new Date(),
+      data: { attempt, delay, ...exit },
+    });
+  }
+
+  public emitServiceCrashLoop(service: Service, crashes: number, window: number): void {
+    this.emit('service:crash-loop', {
+      type: 'crash-loop',
+      service,
+      timestamp: new Date(),
+      data: { crashes, window },
+    });
+  }
+
+  public emitServiceResourceAlert(service: Service, rss: number, threshold: number): void {
+    this.emit('service:resource-alert', {
+      type: 'resource-alert',
+      service,
+      timestamp: new Date(),
+      data: { rss, threshold },
+    });
+  }
+
   // Note: emitServiceStatusChanged is implemented below with different signature
 
-  public emitGroupStarted(group: Group, results: Array<{ service: string; success: boolean; error?: string }>): void {
+  public emitGroupStarted(group: Group, results: GroupServiceResult[]): void {
     this.emit('group:started', {
       type: 'started',
       group,
@@ -124,7 +170,7 @@ export class EventBus extends EventEmitter {
     });
   }
 
-  public emitGroupStopped(group: Group, results: Array<{ service: string; success: boolean; error?: string }>): void {
+  public emitGroupStopped(group: Group, results: GroupServiceResult[]): void {
     this.emit('group:stopped', {
       type: 'stopped',
       group,
@@ -133,7 +179,7 @@ export class EventBus extends EventEmitter {
     });
   }
 
-  public emitGroupError(group: Group, results: Array<{ service: string; success: boolean; error?: string }>): void {
+  public emitGroupError(group: Group, results: GroupServiceResult[]): void {
     this.emit('group:error', {
       type: 'error',
       group,
@@ -158,11 +204,10 @@ export class EventBus extends EventEmitter {
     this.emit('tray:update', { timestamp: new Date() });
   }
 
-  public emitServiceLogUpdate(service: Service, line: string): void {
+  public emitServiceLogUpdate(service: Service, entry: LogEntry): void {
     this.emit('service:log-update', {
       service,
-      line,
-      timestamp: new Date(),
+      entry,
     });
   }
 
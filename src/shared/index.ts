@@ -5,7 +5,7 @@ export * from './types';
 export { default as logger, logError, logWarn, logInfo, logDebug, createServiceLogger } from './logger';
 
 // Events
-export { eventBus, EventBus, type AppEventType, type AppEventPayload } from './events';
+export { eventBus, EventBus, appEventTypes, type AppEventType, type AppEventPayload } from './events';
 
 // Configuration
-export { config, appConfig, buildConfig, defaultSettings, processManagerDefaults, discoveryDefaults } from './config'; 
\ No newline at end of file
+export { config, appConfig, buildConfig, defaultSettings, processManagerDefaults, logPersistenceDefaults, restartPolicyDefaults, resourceMonitorDefaults, healthCheckDefaults, portRangeDefaults, proxyDefaults, discoveryDefaults } from './config'; 
\ No newline at end of file
@@ -87,6 +87,15 @@ export const stream = {
 // Export logger instance
 export default logger;
 
+// Command-line tools own stdout/stderr, so they turn the console transport off
+export const setConsoleLogging = (enabled: boolean): void => {
+  logger.transports
+    .filter((transport) => transport instanceof winston.transports.Console)
+    .forEach((transport) => {
+      transport.silent = !enabled;
+    });
+};
+
 // Export convenience methods
 export const logError = (message: string, error?: Error): void => {
   logger.error(message, { error: error?.stack });
@@ -0,0 +1,74 @@
+// JSON-RPC 2.0 over the control socket. Every message is a single JSON object
+// terminated by a newline.
+
+export const RPC_VERSION = '2.0';
+
+export const RpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  NotFound: -32001,
+  OperationFailed: -32002,
+} as const;
+
+export type RpcParams = Record<string, unknown>;
+
+export interface RpcRequest {
+  jsonrpc: typeof RPC_VERSION;
+  id?: number | string;
+  method: string;
+  params?: RpcParams;
+}
+
+export interface RpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface RpcResponse {
+  jsonrpc: typeof RPC_VERSION;
+  id: number | string | null;
+  result?: unknown;
+  error?: RpcErrorObject;
+}
+
+// Server-initiated message for subscriptions, e.g. method 'event' or 'logs.entry'
+export interface RpcNotification {
+  jsonrpc: typeof RPC_VERSION;
+  method: string;
+  params: RpcParams;
+}
+
+export type RpcMessage = RpcRequest | RpcResponse | RpcNotification;
+
+export const RpcMethods = [
+  'ping',
+  'services.list',
+  'services.start',
+  'services.stop',
+  'services.restart',
+  'services.resources',
+  'groups.list',
+  'groups.start',
+  'groups.stop',
+  'logs.tail',
+  'events.subscribe',
+  'events.unsubscribe',
+] as const;
+
+export type RpcMethod = (typeof RpcMethods)[number];
+
+// Errors and dates do not survive JSON.stringify on their own
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+export function encodeMessage(message: RpcMessage): string {
+  return `${JSON.stringify(message, replacer)}\n`;
+}
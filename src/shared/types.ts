@@ -5,16 +5,49 @@ export interface Service {
   path: string;
   command: string;
   port?: number;
+  autoPort?: boolean; // Claim a free port from settings.portRange when saved without one
+  onPortConflict?: PortConflictPolicy; // defaults to 'prompt'
   autoStart?: boolean;
   projectType?: ProjectType;
   status?: ServiceStatus;
   logs?: string[];
   lastStarted?: string;
   lastStopped?: string;
+  restartPolicy?: RestartPolicy;
+  healthCheck?: HealthCheck;
+  dependencies?: string[]; // Service IDs that must be ready before this one starts
+  startupDelay?: number; // Extra ms to wait after this service is ready before starting dependents
+  env?: Record<string, string>;
+  envFiles?: string[]; // dotenv files relative to path, later files win
+  useLoginShellEnv?: boolean; // Start from the login shell's environment (PATH etc.)
+  memoryThreshold?: number; // MB of RSS across the process tree before an alert
+  detached?: boolean; // Keeps running when Runbar quits; output goes to files
   createdAt: string;
   updatedAt: string;
 }
 
+export interface RestartPolicy {
+  mode: RestartMode;
+  maxRetries?: number;
+  initialDelay?: number; // ms before the first restart, doubled on each attempt
+  maxDelay?: number;
+  crashLoopThreshold?: number; // crashes within crashLoopWindow that trip the breaker
+  crashLoopWindow?: number;
+}
+
+// Readiness probe: the service stays 'starting' until the check passes
+export interface HealthCheck {
+  type: HealthCheckType;
+  url?: string; // http: defaults to http://localhost:<port><path>
+  path?: string;
+  expectedStatus?: number;
+  port?: number; // http/tcp: defaults to Service.port
+  pattern?: string; // log: regex matched against process output
+  command?: string; // command: run in the service's directory, passes on exit code 0
+  interval?: number;
+  timeout?: number; // ms before a starting service is marked as error
+}
+
 export interface Group {
   id: string;
   name: string;
@@ -34,6 +67,20 @@ export interface Settings {
   autoUpdateEnabled?: boolean;
   theme?: 'light' | 'dark' | 'system';
   notifications?: boolean;
+  portRange?: PortRange; // where autoPort services get their ports
+  proxy?: ProxySettings;
+}
+
+// Routes http://<service>.localhost:<port> to each service's port
+export interface ProxySettings {
+  enabled: boolean;
+  port?: number;
+  startOnRequest?: boolean; // start a stopped service when a request arrives for it
+}
+
+export interface PortRange {
+  start: number;
+  end: number; // inclusive
 }
 
 export interface ConfigData {
@@ -47,6 +94,15 @@ export interface ConfigData {
 // Status and type enums
 export type ServiceStatus = 'running' | 'stopped' | 'starting' | 'stopping' | 'error';
 
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+// Applied when the port is taken before spawn or the process reports EADDRINUSE
+export type PortConflictPolicy = 'prompt' | 'fail' | 'kill-and-restart' | 'adopt' | 'pick-next-free-port';
+
+export type HealthCheckType = 'http' | 'tcp' | 'log' | 'command';
+
+export type HealthState = 'unknown' | 'healthy' | 'unhealthy';
+
 export type ProjectType = 
   | 'nodejs' 
   | 'ruby' 
@@ -58,6 +114,15 @@ export type ProjectType =
   | 'unknown';
 
 // Discovery types
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'bun' | 'turbo' | 'nx' | 'lerna';
+
+// The monorepo a discovered service belongs to
+export interface DiscoveredWorkspace {
+  name: string;
+  path: string;
+  tool: WorkspaceTool;
+}
+
 export interface DiscoveredService {
   name: string;
   path: string;
@@ -66,6 +131,11 @@ export interface DiscoveredService {
   configFile: string;
   packageManager?: string;
   scripts?: Record<string, string>;
+  workspace?: DiscoveredWorkspace;
+  warnings?: string[]; // shown in the import preview, e.g. missing dependencies
+  port?: number;
+  dependsOn?: string[]; // names of other discovered services, resolved to ids on import
+  healthCheck?: HealthCheck;
 }
 
 export interface ServiceDiscoveryOptions {
@@ -78,22 +148,82 @@ export interface ServiceDiscoveryOptions {
 export interface ProcessInfo {
   pid: number;
   status: ServiceStatus;
+  health: HealthState;
   startTime: Date;
-  logs: string[];
+  logs: LogEntry[];
+  ports?: number[]; // listening ports detected from output banners and sockets
+  resources?: ResourceSample[]; // rolling history, oldest first
   exitCode?: number;
+  signal?: string;
   error?: string;
 }
 
+// Usage of a service's whole process tree at one point in time
+export interface ResourceSample {
+  timestamp: Date;
+  cpu: number; // percent of one core since the previous sample
+  rss: number; // bytes
+  threads: number | null; // null where the platform does not report it
+  fds: number | null;
+  processes: number;
+}
+
+// 'system' lines are written by Runbar itself, e.g. exit and restart notices
+export type LogStream = 'stdout' | 'stderr' | 'system';
+
+// A single line of service output
+export interface LogEntry {
+  timestamp: Date;
+  stream: LogStream;
+  text: string;
+}
+
+export interface LogQuery {
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface ProcessExit {
+  exitCode: number | null;
+  signal: string | null;
+}
+
 export interface ProcessManagerOptions {
   logStorageLimit?: number;
   statusPollingInterval?: number;
   gracefulShutdownTimeout?: number;
+  logDir?: string;
+  ledgerPath?: string; // records running services so a later session can reattach to them
+  releaseReattached?: boolean; // leave services reattached from an earlier session running on destroy
+  prompter?: PromptProvider;
+  // Resolves ${services.<name>.port} references to services that are not running
+  storageService?: { getServices(): Promise<Service[]> };
+}
+
+// Questions the core needs a person to answer, e.g. what to do about a port
+// conflict. The tray app answers with native dialogs; headless runs have no
+// prompter and take the cancel choice.
+export interface PromptOptions {
+  type: 'info' | 'warning' | 'error' | 'question';
+  title: string;
+  message: string;
+  buttons: string[];
+  defaultId?: number;
+  cancelId?: number;
+}
+
+export interface PromptProvider {
+  // Resolves with the index of the chosen button
+  showMessage(options: PromptOptions): Promise<number>;
 }
 
 // UI types
 export interface TrayStatus {
   overall: 'running' | 'starting' | 'stopped' | 'error';
   runningCount: number;
+  startingCount: number;
+  unhealthyCount: number;
   totalCount: number;
   errorCount: number;
 }
@@ -107,17 +237,23 @@ export interface StorageOptions {
 
 // Event types
 export interface ServiceEvent {
-  type: 'started' | 'stopped' | 'error' | 'status-changed';
+  type: 'started' | 'stopped' | 'error' | 'status-changed' | 'restarting' | 'crash-loop' | 'resource-alert';
   service: Service;
   timestamp: Date;
   data?: unknown;
 }
 
+export interface GroupServiceResult {
+  service: string; // Service ID
+  success: boolean;
+  error?: string;
+}
+
 export interface GroupEvent {
   type: 'started' | 'stopped' | 'error';
   group: Group;
   timestamp: Date;
-  results: Array<{ service: string; success: boolean; error?: string }>;
+  results: GroupServiceResult[];
 }
 
 // Error types
@@ -165,6 +301,18 @@ export class StorageError extends RunbarError {
   }
 }
 
+// Errors reported to control socket clients; rpcCode is the JSON-RPC error code
+export class RpcError extends RunbarError {
+  constructor(
+    message: string,
+    public rpcCode: number,
+    details?: unknown
+  ) {
+    super(message, 'RPC_ERROR', details);
+    this.name = 'RpcError';
+  }
+}
+
 // Configuration types
 export interface AppConfig {
   name: string;
@@ -1,6 +1,8 @@
-import { dialog, BrowserWindow, ipcMain } from 'electron';
-import type { DiscoveredService } from '../shared/types';
+import { dialog, BrowserWindow, ipcMain, type IpcMainEvent } from 'electron';
+import type { DiscoveredService, PromptOptions, PromptProvider } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
+import { escapeHtml } from '../shared/html';
+import { formatDotenv, parseDotenv, resolveServiceEnvironment } from '../core/environment';
 
 const log = createServiceLogger('DialogService');
 
@@ -14,9 +16,22 @@ export interface ServiceFormData {
   path: string;
   command: string;
   projectType?: string;
+  port?: number;
+  autoPort?: boolean;
+  env?: Record<string, string>;
+  envFiles?: string[];
+  useLoginShellEnv?: boolean;
+  detached?: boolean;
 }
 
-export class DialogService {
+// What the form's renderer sends: env is edited as dotenv-style text and
+// the port arrives as the input's string value
+interface RawServiceFormData extends Omit<ServiceFormData, 'env' | 'port'> {
+  envText?: string;
+  portText?: string;
+}
+
+export class DialogService implements PromptProvider {
   private windows: Map<string, BrowserWindow> = new Map();
 
   async selectFolder(title: string = 'Select Folder'): Promise<string | null> {
@@ -37,6 +52,11 @@ export class DialogService {
     }
   }
 
+  async showMessage(options: PromptOptions): Promise<number> {
+    const result = await dialog.showMessageBox(options);
+    return result.response;
+  }
+
   async showServicePreviewDialog(data: ServicePreviewData): Promise<DiscoveredService[]> {
     return new Promise((resolve) => {
       const window = new BrowserWindow({
@@ -83,8 +103,8 @@ export class DialogService {
   ): Promise<ServiceFormData | null> {
     return new Promise((resolve) => {
       const window = new BrowserWindow({
-        width: 500,
-        height: 400,
+        width: 560,
+        height: 760,
         modal: true,
         show: false,
         webPreferences: {
@@ -103,13 +123,28 @@ export class DialogService {
         window.show();
       });
 
+      const previewEnvironment = async (event: IpcMainEvent, formData: RawServiceFormData) => {
+        try {
+          const resolved = await resolveServiceEnvironment(this.toServiceFormData(formData));
+          const entries = Object.keys(resolved.env)
+            .sort()
+            .map(key => ({ key, value: resolved.env[key], ...resolved.sources[key] }));
+          event.sender.send('service-form-env-preview', { entries, warnings: resolved.warnings });
+        } catch (error) {
+          log.warn('Failed to preview environment', { error: error as Error });
+          event.sender.send('service-form-env-preview', { entries: [], warnings: [(error as Error).message] });
+        }
+      };
+      ipcMain.on('service-form-preview-env', previewEnvironment);
+
       window.on('closed', () => {
+        ipcMain.removeListener('service-form-preview-env', previewEnvironment);
         this.windows.delete('service-form');
       });
 
       // Handle IPC communication
-      ipcMain.once('service-form-submit', (_, formData: ServiceFormData) => {
-        resolve(formData);
+      ipcMain.once('service-form-submit', (_, formData: RawServiceFormData) => {
+        resolve(this.toServiceFormData(formData));
         window.close();
       });
 
@@ -120,6 +155,42 @@ export class DialogService {
     });
   }
 
+  private toServiceFormData(raw: RawServiceFormData): ServiceFormData {
+    const { envText, portText, ...formData } = raw;
+    const env = parseDotenv(envText || '');
+    const envFiles = (raw.envFiles || []).map(file => file.trim()).filter(Boolean);
+    const port = parseInt(portText || '', 10);
+
+    return {
+      ...formData,
+      ...(port > 0 && port <= 65535 && { port }),
+      autoPort: Boolean(raw.autoPort),
+      env,
+      envFiles,
+      useLoginShellEnv: Boolean(raw.useLoginShellEnv),
+      detached: Boolean(raw.detached),
+    };
+  }
+
+  // Services outside any monorepo first, then one group per monorepo; indices
+  // point back into the list the import script reads from
+  private groupByWorkspace(services: DiscoveredService[]): {
+    workspace: DiscoveredService['workspace'];
+    entries: { service: DiscoveredService; index: number }[];
+  }[] {
+    const groups = new Map<string, { workspace: DiscoveredService['workspace']; entries: { service: DiscoveredService; index: number }[] }>();
+    groups.set('', { workspace: undefined, entries: [] });
+
+    services.forEach((service, index) => {
+      const key = service.workspace?.path ?? '';
+      const group = groups.get(key) ?? { workspace: service.workspace, entries: [] };
+      group.entries.push({ service, index });
+      groups.set(key, group);
+    });
+
+    return [...groups.values()].filter(group => group.entries.length > 0);
+  }
+
   async showInputDialog(prompt: string, defaultValue: string = ''): Promise<string | null> {
     return new Promise((resolve) => {
       const window = new BrowserWindow({
@@ -188,6 +259,9 @@ export class DialogService {
           .service-name { font-weight: bold; color: #333; }
           .service-details { color: #666; font-size: 0.9em; margin-top: 5px; }
           .project-type { background: #2196f3; color: white; padding: 2px 8px; border-radius: 12px; font-size: 0.8em; }
+          .service-warning { color: #b26a00; font-size: 0.9em; margin-top: 5px; }
+          .workspace-header { font-weight: bold; color: #333; margin: 15px 0 10px; }
+          .workspace-services { margin-left: 20px; }
           .buttons { text-align: right; margin-top: 20px; }
           button { 
             padding: 10px 20px; 
@@ -214,17 +288,28 @@ export class DialogService {
 
           <div class="service-list">
             <h3>Discovered Services (${discoveredServices.length})</h3>
-            ${discoveredServices.map((service, index) => `
-              <div class="service-item">
-                <input type="checkbox" id="service-${index}" checked>
-                <div class="service-info">
-                  <div class="service-name">${service.name}</div>
-                  <div class="service-details">
-                    <strong>Path:</strong> ${service.path}<br>
-                    <strong>Command:</strong> ${service.command}<br>
-                    <strong>Type:</strong> <span class="project-type">${service.projectType}</span>
-                  </div>
+            ${this.groupByWorkspace(discoveredServices).map(({ workspace, entries }) => `
+              ${workspace ? `
+                <div class="workspace-header">
+                  ${escapeHtml(workspace.name)} <span class="project-type">${workspace.tool}</span>
+                  <div class="service-details">${escapeHtml(workspace.path)}</div>
                 </div>
+              ` : ''}
+              <div class="${workspace ? 'workspace-services' : ''}">
+                ${entries.map(({ service, index }) => `
+                  <div class="service-item">
+                    <input type="checkbox" id="service-${index}" checked>
+                    <div class="service-info">
+                      <div class="service-name">${escapeHtml(service.name)}</div>
+                      <div class="service-details">
+                        <strong>Path:</strong> ${escapeHtml(service.path)}<br>
+                        <strong>Command:</strong> ${escapeHtml(service.command)}<br>
+                        <strong>Type:</strong> <span class="project-type">${service.projectType}</span>
+                      </div>
+                      ${(service.warnings ?? []).map(warning => `<div class="service-warning">⚠️ ${escapeHtml(warning)}</div>`).join('')}
+                    </div>
+                  </div>
+                `).join('')}
               </div>
             `).join('')}
           </div>
@@ -262,6 +347,7 @@ export class DialogService {
     projectInfo?: Partial<DiscoveredService>
   ): string {
     const data = { ...projectInfo, ...initialData };
+    const envText = formatDotenv(initialData?.env || {});
     
     return `
       <!DOCTYPE html>
@@ -274,7 +360,22 @@ export class DialogService {
           h1 { color: #333; margin-bottom: 20px; }
           .form-group { margin-bottom: 15px; }
           label { display: block; margin-bottom: 5px; font-weight: bold; color: #333; }
-          input, select { 
+          .env-preview {
+            max-height: 180px;
+            overflow: auto;
+            font-family: Menlo, monospace;
+            font-size: 11px;
+            background: #f8f8f8;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            padding: 8px;
+            display: none;
+          }
+          .env-preview .source { color: #888; }
+          .env-preview .warning { color: #c62828; }
+          .inline-label { display: flex; align-items: center; gap: 8px; font-weight: normal; }
+          .inline-label input { width: auto; }
+          input, select, textarea { 
             width: 100%; 
             padding: 8px; 
             border: 1px solid #ddd; 
@@ -330,6 +431,44 @@ export class DialogService {
                 <option value="unknown" ${data.projectType === 'unknown' ? 'selected' : ''}>Unknown</option>
               </select>
             </div>
+
+            <div class="form-group">
+              <label for="port">Port (passed to the service as PORT):</label>
+              <input type="number" id="port" min="1" max="65535" value="${initialData?.port ?? ''}">
+              <label class="inline-label">
+                <input type="checkbox" id="autoPort" ${initialData?.autoPort ? 'checked' : ''}>
+                Assign a free port if empty
+              </label>
+            </div>
+
+            <div class="form-group">
+              <label for="envText">Environment Variables (KEY=VALUE per line):</label>
+              <textarea id="envText" rows="4">${escapeHtml(envText)}</textarea>
+            </div>
+
+            <div class="form-group">
+              <label for="envFiles">Env Files (comma-separated, relative to path):</label>
+              <input type="text" id="envFiles" value="${escapeHtml((initialData?.envFiles || []).join(', '))}" placeholder=".env, .env.local">
+            </div>
+
+            <div class="form-group">
+              <label class="inline-label">
+                <input type="checkbox" id="useLoginShellEnv" ${initialData?.useLoginShellEnv ? 'checked' : ''}>
+                Use login shell environment (PATH, version managers)
+              </label>
+            </div>
+
+            <div class="form-group">
+              <label class="inline-label">
+                <input type="checkbox" id="detached" ${initialData?.detached ? 'checked' : ''}>
+                Keep running when Runbar quits
+              </label>
+            </div>
+
+            <div class="form-group">
+              <button type="button" class="btn-secondary" onclick="previewEnv()">Preview Environment</button>
+              <div id="envPreview" class="env-preview"></div>
+            </div>
           </form>
 
           <div class="buttons">
@@ -341,13 +480,51 @@ export class DialogService {
         <script>
           const { ipcRenderer } = require('electron');
           
-          function submitForm() {
-            const formData = {
+          function collectForm() {
+            return {
               name: document.getElementById('name').value,
               path: document.getElementById('path').value,
               command: document.getElementById('command').value,
-              projectType: document.getElementById('projectType').value
+              projectType: document.getElementById('projectType').value,
+              portText: document.getElementById('port').value,
+              autoPort: document.getElementById('autoPort').checked,
+              envText: document.getElementById('envText').value,
+              envFiles: document.getElementById('envFiles').value.split(','),
+              useLoginShellEnv: document.getElementById('useLoginShellEnv').checked,
+              detached: document.getElementById('detached').checked
             };
+          }
+
+          function previewEnv() {
+            const preview = document.getElementById('envPreview');
+            preview.style.display = 'block';
+            preview.textContent = 'Resolving...';
+            ipcRenderer.send('service-form-preview-env', collectForm());
+          }
+
+          // Later sources override earlier ones: runbar < login-shell < port < env-file < service
+          ipcRenderer.on('service-form-env-preview', (_, result) => {
+            const preview = document.getElementById('envPreview');
+            preview.textContent = '';
+            result.warnings.forEach(warning => {
+              const line = document.createElement('div');
+              line.className = 'warning';
+              line.textContent = warning;
+              preview.appendChild(line);
+            });
+            result.entries.forEach(entry => {
+              const line = document.createElement('div');
+              const source = document.createElement('span');
+              source.className = 'source';
+              source.textContent = ' # ' + entry.source + (entry.file ? ' (' + entry.file + ')' : '');
+              line.textContent = entry.key + '=' + entry.value;
+              line.appendChild(source);
+              preview.appendChild(line);
+            });
+          });
+
+          function submitForm() {
+            const formData = collectForm();
             
             if (formData.name && formData.path && formData.command) {
               ipcRenderer.send('service-form-submit', formData);
@@ -0,0 +1,161 @@
+import type { LogEntry } from '../shared/types';
+import { escapeHtml } from '../shared/html';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+interface AnsiStyle {
+  color?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+const ESC = '\u001b';
+// SGR sequences carry colours; other CSI sequences (cursor movement, clearing)
+// are meaningless in a log and dropped
+const CSI_PATTERN = new RegExp(`${ESC}\\[([0-9;?]*)([A-Za-z])`, 'g');
+
+// Standard and bright colours, close to the VS Code terminal theme
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+];
+
+const LEVEL_PATTERNS: [LogLevel, RegExp][] = [
+  ['error', /\b(error|err|fatal|panic|exception|critical)\b/i],
+  ['warn', /\b(warn|warning|deprecated)\b/i],
+  ['debug', /\b(debug|trace|verbose)\b/i],
+];
+
+export function stripAnsi(text: string): string {
+  return text.replace(CSI_PATTERN, '');
+}
+
+function color256(index: number): string | undefined {
+  if (index < 16) {
+    return PALETTE[index];
+  }
+  if (index < 232) {
+    const cube = index - 16;
+    const level = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+    return `rgb(${level(Math.floor(cube / 36))}, ${level(Math.floor(cube / 6) % 6)}, ${level(cube % 6)})`;
+  }
+  const gray = 8 + (index - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+// Reads an extended colour (38;5;n or 38;2;r;g;b) starting after the 38/48 code
+function readExtendedColor(codes: number[], start: number): { color?: string; next: number } {
+  if (codes[start] === 5) {
+    const color = color256(codes[start + 1] ?? 0);
+    return { ...(color && { color }), next: start + 2 };
+  }
+  if (codes[start] === 2) {
+    const [r = 0, g = 0, b = 0] = codes.slice(start + 1, start + 4);
+    return { color: `rgb(${r}, ${g}, ${b})`, next: start + 4 };
+  }
+  return { next: start + 1 };
+}
+
+function applySgr(style: AnsiStyle, codes: number[]): AnsiStyle {
+  let next: AnsiStyle = { ...style };
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]!;
+
+    if (code === 0) {
+      next = {};
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 2) {
+      next.dim = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 22) {
+      delete next.bold;
+      delete next.dim;
+    } else if (code === 23) {
+      delete next.italic;
+    } else if (code === 24) {
+      delete next.underline;
+    } else if (code >= 30 && code <= 37) {
+      next.color = PALETTE[code - 30]!;
+    } else if (code >= 90 && code <= 97) {
+      next.color = PALETTE[code - 90 + 8]!;
+    } else if (code === 39) {
+      delete next.color;
+    } else if (code >= 40 && code <= 47) {
+      next.background = PALETTE[code - 40]!;
+    } else if (code >= 100 && code <= 107) {
+      next.background = PALETTE[code - 100 + 8]!;
+    } else if (code === 49) {
+      delete next.background;
+    } else if (code === 38 || code === 48) {
+      const { color, next: index } = readExtendedColor(codes, i + 1);
+      if (color) {
+        next[code === 38 ? 'color' : 'background'] = color;
+      }
+      i = index - 1;
+    }
+  }
+
+  return next;
+}
+
+function styleToCss(style: AnsiStyle): string {
+  return [
+    style.color && `color: ${style.color}`,
+    style.background && `background: ${style.background}`,
+    style.bold && 'font-weight: bold',
+    style.dim && 'opacity: 0.7',
+    style.italic && 'font-style: italic',
+    style.underline && 'text-decoration: underline',
+  ].filter(Boolean).join('; ');
+}
+
+// Converts text with ANSI colour codes into escaped HTML with inline styles
+export function ansiToHtml(text: string): string {
+  let html = '';
+  let style: AnsiStyle = {};
+  let last = 0;
+
+  const appendText = (segment: string) => {
+    if (!segment) {
+      return;
+    }
+    const css = styleToCss(style);
+    html += css ? `<span style="${css}">${escapeHtml(segment)}</span>` : escapeHtml(segment);
+  };
+
+  for (const match of text.matchAll(CSI_PATTERN)) {
+    appendText(text.slice(last, match.index));
+    last = (match.index ?? 0) + match[0].length;
+
+    if (match[2] === 'm') {
+      const codes = (match[1] || '0').split(';').map(code => parseInt(code, 10) || 0);
+      style = applySgr(style, codes);
+    }
+  }
+  appendText(text.slice(last));
+
+  return html;
+}
+
+// Best-effort level from the line's text; Runbar's own lines are info
+export function detectLogLevel(entry: LogEntry): LogLevel {
+  if (entry.stream === 'system') {
+    return 'info';
+  }
+
+  const text = stripAnsi(entry.text);
+  for (const [level, pattern] of LEVEL_PATTERNS) {
+    if (pattern.test(text)) {
+      return level;
+    }
+  }
+  return 'info';
+}
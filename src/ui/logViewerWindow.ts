@@ -0,0 +1,499 @@
+import { BrowserWindow, clipboard, dialog, ipcMain } from 'electron';
+import { writeFile } from 'fs/promises';
+import type { Service, LogEntry, LogQuery } from '../shared/types';
+import { createServiceLogger } from '../shared/logger';
+import { eventBus, type AppEventPayload } from '../shared/events';
+import { ansiToHtml, detectLogLevel, stripAnsi, type LogLevel } from './logFormatting';
+import { escapeHtml } from '../shared/html';
+
+const log = createServiceLogger('LogViewerWindow');
+
+// Flushing live lines in batches keeps chatty services from flooding IPC
+const FLUSH_INTERVAL = 100;
+const HISTORY_LIMIT = 1000;
+
+export interface LogViewerWindowOptions {
+  processManager: {
+    readLogs(serviceId: string, query?: LogQuery): Promise<LogEntry[]>;
+  };
+  width?: number;
+  height?: number;
+}
+
+// What the renderer receives for each line
+export interface ViewerLogEntry {
+  serviceId: string;
+  timestamp: string;
+  stream: LogEntry['stream'];
+  level: LogLevel;
+  text: string;
+  html: string;
+}
+
+export function toViewerEntry(serviceId: string, entry: LogEntry): ViewerLogEntry {
+  return {
+    serviceId,
+    timestamp: entry.timestamp.toISOString(),
+    stream: entry.stream,
+    level: detectLogLevel(entry),
+    text: stripAnsi(entry.text),
+    html: ansiToHtml(entry.text),
+  };
+}
+
+export class LogViewerWindow {
+  private window: BrowserWindow | null = null;
+  private options: LogViewerWindowOptions;
+  private pending: ViewerLogEntry[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  private onLogUpdate = ({ service, entry }: AppEventPayload['service:log-update']) => {
+    this.pending.push(toViewerEntry(service.id, entry));
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL);
+    }
+  };
+
+  constructor(options: LogViewerWindowOptions) {
+    this.options = options;
+  }
+
+  // Opens the viewer (or focuses it) with the given services selected
+  async open(services: Service[], selectedIds: string[] = services.map(s => s.id)): Promise<void> {
+    const init = {
+      services: services.map(s => ({ id: s.id, name: s.name })),
+      selected: selectedIds,
+    };
+
+    if (this.window) {
+      this.window.webContents.send('logs:init', init);
+      this.window.focus();
+      return;
+    }
+
+    try {
+      log.info('Opening log viewer', { services: selectedIds });
+
+      this.window = new BrowserWindow({
+        width: this.options.width || 1100,
+        height: this.options.height || 700,
+        title: 'Runbar Logs',
+        webPreferences: {
+          nodeIntegration: true,
+          contextIsolation: false,
+        },
+        show: false,
+      });
+
+      this.window.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(this.getHTML())}`);
+
+      this.window.once('ready-to-show', () => {
+        this.window?.show();
+      });
+
+      this.window.webContents.once('did-finish-load', () => {
+        this.window?.webContents.send('logs:init', init);
+      });
+
+      this.window.on('closed', () => {
+        this.teardown();
+        log.info('Log viewer closed');
+      });
+
+      this.setupIPCHandlers();
+      eventBus.on('service:log-update', this.onLogUpdate);
+    } catch (error) {
+      log.error('Failed to open log viewer', error as Error);
+      this.teardown();
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.window?.close();
+  }
+
+  isVisible(): boolean {
+    return this.window ? !this.window.isDestroyed() && this.window.isVisible() : false;
+  }
+
+  private setupIPCHandlers(): void {
+    ipcMain.handle('logs:history', async (_event, serviceId: string) => {
+      try {
+        const entries = await this.options.processManager.readLogs(serviceId, { limit: HISTORY_LIMIT });
+        return { success: true, entries: entries.map(entry => toViewerEntry(serviceId, entry)) };
+      } catch (error) {
+        log.warn('Failed to read log history', { serviceId, error: error as Error });
+        return { success: false, error: (error as Error).message };
+      }
+    });
+
+    ipcMain.handle('logs:copy', (_event, text: string) => {
+      clipboard.writeText(text);
+      return { success: true };
+    });
+
+    ipcMain.handle('logs:export', async (_event, text: string) => {
+      try {
+        const result = await dialog.showSaveDialog({
+          title: 'Export Logs',
+          defaultPath: `runbar-logs-${new Date().toISOString().replace(/[:.]/g, '-')}.log`,
+        });
+        if (result.canceled || !result.filePath) {
+          return { success: false };
+        }
+
+        await writeFile(result.filePath, text, 'utf-8');
+        log.info('Exported logs', { file: result.filePath });
+        return { success: true, filePath: result.filePath };
+      } catch (error) {
+        log.error('Failed to export logs', error as Error);
+        return { success: false, error: (error as Error).message };
+      }
+    });
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    const entries = this.pending.splice(0);
+    if (entries.length > 0 && this.window && !this.window.isDestroyed()) {
+      this.window.webContents.send('logs:entries', entries);
+    }
+  }
+
+  private teardown(): void {
+    eventBus.removeListener('service:log-update', this.onLogUpdate);
+    ipcMain.removeHandler('logs:history');
+    ipcMain.removeHandler('logs:copy');
+    ipcMain.removeHandler('logs:export');
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending = [];
+    this.window = null;
+  }
+
+  private getHTML(): string {
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Runbar Logs</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            font-size: 13px;
+            background: #1e1e1e;
+            color: #d4d4d4;
+            height: 100vh;
+            display: flex;
+            flex-direction: column;
+        }
+
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+            align-items: center;
+            padding: 8px 12px;
+            background: #2d2d2d;
+            border-bottom: 1px solid #3c3c3c;
+        }
+
+        .toolbar label { display: flex; align-items: center; gap: 4px; }
+        .toolbar .group { display: flex; gap: 8px; align-items: center; }
+
+        input[type="text"], select {
+            background: #3c3c3c;
+            color: #d4d4d4;
+            border: 1px solid #555;
+            border-radius: 4px;
+            padding: 4px 6px;
+        }
+
+        input[type="text"].invalid { border-color: #f14c4c; }
+
+        button {
+            background: #0e639c;
+            color: white;
+            border: none;
+            border-radius: 4px;
+            padding: 4px 10px;
+            cursor: pointer;
+        }
+
+        button.paused { background: #c27d0e; }
+
+        #services { display: flex; flex-wrap: wrap; gap: 8px; }
+
+        #panes { flex: 1; display: flex; min-height: 0; }
+
+        .pane {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+            border-right: 1px solid #3c3c3c;
+        }
+
+        .pane-title { padding: 4px 8px; background: #252526; font-weight: 600; }
+
+        .lines {
+            flex: 1;
+            overflow: auto;
+            font-family: Menlo, Monaco, monospace;
+            font-size: 12px;
+            white-space: pre-wrap;
+            word-break: break-all;
+            padding: 4px 8px;
+            user-select: text;
+        }
+
+        .line.stderr { background: rgba(241, 76, 76, 0.08); }
+        .line.system { color: #888; font-style: italic; }
+        .line .time { color: #6a9955; }
+        .line .service { color: #569cd6; }
+
+        #status { color: #888; margin-left: auto; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <div id="services"></div>
+        <div class="group">
+            <select id="layout">
+                <option value="interleaved">Interleaved</option>
+                <option value="split">Side by side</option>
+            </select>
+        </div>
+        <div class="group">
+            <input type="text" id="search" placeholder="Search">
+            <label><input type="checkbox" id="regex"> Regex</label>
+        </div>
+        <div class="group">
+            <label><input type="checkbox" class="stream" value="stdout" checked> stdout</label>
+            <label><input type="checkbox" class="stream" value="stderr" checked> stderr</label>
+            <label><input type="checkbox" class="stream" value="system" checked> runbar</label>
+        </div>
+        <div class="group">
+            <select id="level">
+                <option value="debug">All levels</option>
+                <option value="info">Info and above</option>
+                <option value="warn">Warnings and errors</option>
+                <option value="error">Errors only</option>
+            </select>
+        </div>
+        <div class="group">
+            <button id="pause">Pause</button>
+            <label><input type="checkbox" id="follow" checked> Follow</label>
+            <button id="copy">Copy</button>
+            <button id="export">Export</button>
+        </div>
+        <span id="status"></span>
+    </div>
+    <div id="panes"></div>
+
+    <script>
+        const { ipcRenderer } = require('electron');
+
+        const MAX_ENTRIES = 10000;
+        const LEVELS = ['debug', 'info', 'warn', 'error'];
+
+        let services = [];
+        let selected = new Set();
+        let entries = [];
+        let paused = false;
+        let missed = 0;
+        const loadedHistory = new Set();
+
+        const $ = (id) => document.getElementById(id);
+
+        ${escapeHtml.toString()}
+
+        function serviceName(id) {
+            const service = services.find(s => s.id === id);
+            return service ? service.name : id;
+        }
+
+        function getSearch() {
+            const value = $('search').value;
+            $('search').classList.remove('invalid');
+            if (!value) return null;
+            if (!$('regex').checked) {
+                const needle = value.toLowerCase();
+                return (text) => text.toLowerCase().includes(needle);
+            }
+            try {
+                const pattern = new RegExp(value, 'i');
+                return (text) => pattern.test(text);
+            } catch (error) {
+                $('search').classList.add('invalid');
+                return null;
+            }
+        }
+
+        function createFilter() {
+            const search = getSearch();
+            const streams = new Set(Array.from(document.querySelectorAll('.stream:checked')).map(el => el.value));
+            const minLevel = LEVELS.indexOf($('level').value);
+            return (entry) => selected.has(entry.serviceId)
+                && streams.has(entry.stream)
+                && LEVELS.indexOf(entry.level) >= minLevel
+                && (!search || search(entry.text));
+        }
+
+        function renderLine(entry, showService) {
+            const line = document.createElement('div');
+            line.className = 'line ' + entry.stream;
+            const time = new Date(entry.timestamp).toLocaleTimeString();
+            line.innerHTML = '<span class="time">' + time + '</span> '
+                + (showService ? '<span class="service">[' + escapeHtml(serviceName(entry.serviceId)) + ']</span> ' : '')
+                + entry.html;
+            return line;
+        }
+
+        function paneFor(serviceId) {
+            return $('layout').value === 'split'
+                ? document.querySelector('.pane[data-service="' + CSS.escape(serviceId) + '"] .lines')
+                : document.querySelector('.pane .lines');
+        }
+
+        function scrollToEnd() {
+            if (!$('follow').checked) return;
+            document.querySelectorAll('.lines').forEach(el => { el.scrollTop = el.scrollHeight; });
+        }
+
+        function render() {
+            const split = $('layout').value === 'split';
+            const panes = $('panes');
+            panes.innerHTML = '';
+
+            const paneIds = split ? services.filter(s => selected.has(s.id)).map(s => s.id) : [null];
+            paneIds.forEach(id => {
+                const pane = document.createElement('div');
+                pane.className = 'pane';
+                if (id) pane.dataset.service = id;
+                pane.innerHTML = (id ? '<div class="pane-title">' + escapeHtml(serviceName(id)) + '</div>' : '')
+                    + '<div class="lines"></div>';
+                panes.appendChild(pane);
+            });
+
+            const filter = createFilter();
+            entries.filter(filter).forEach(entry => {
+                paneFor(entry.serviceId)?.appendChild(renderLine(entry, !split));
+            });
+            missed = 0;
+            updateStatus();
+            scrollToEnd();
+        }
+
+        function append(newEntries) {
+            entries.push(...newEntries);
+            if (entries.length > MAX_ENTRIES) {
+                entries.splice(0, entries.length - MAX_ENTRIES);
+            }
+
+            if (paused) {
+                missed += newEntries.length;
+                updateStatus();
+                return;
+            }
+
+            const split = $('layout').value === 'split';
+            const filter = createFilter();
+            newEntries.filter(filter).forEach(entry => {
+                paneFor(entry.serviceId)?.appendChild(renderLine(entry, !split));
+            });
+            scrollToEnd();
+        }
+
+        function updateStatus() {
+            $('status').textContent = paused && missed > 0 ? missed + ' new lines while paused' : '';
+        }
+
+        function renderServices() {
+            $('services').innerHTML = '';
+            services.forEach(service => {
+                const label = document.createElement('label');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = selected.has(service.id);
+                checkbox.addEventListener('change', async () => {
+                    checkbox.checked ? selected.add(service.id) : selected.delete(service.id);
+                    await loadHistory(service.id);
+                    render();
+                });
+                label.appendChild(checkbox);
+                label.appendChild(document.createTextNode(service.name));
+                $('services').appendChild(label);
+            });
+        }
+
+        // Backfills persisted logs the first time a service is shown
+        async function loadHistory(serviceId) {
+            if (!selected.has(serviceId) || loadedHistory.has(serviceId)) return;
+            loadedHistory.add(serviceId);
+
+            const result = await ipcRenderer.invoke('logs:history', serviceId);
+            if (result.success && result.entries.length > 0) {
+                // Live lines that arrived meanwhile may already be in the history
+                const last = result.entries[result.entries.length - 1].timestamp;
+                entries = result.entries
+                    .concat(entries.filter(e => e.serviceId !== serviceId || e.timestamp > last))
+                    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                    .slice(-MAX_ENTRIES);
+            }
+        }
+
+        function selectedText() {
+            const selection = window.getSelection().toString();
+            if (selection) return selection;
+            const filter = createFilter();
+            return entries.filter(filter)
+                .map(entry => entry.timestamp + ' [' + serviceName(entry.serviceId) + '] ' + entry.stream + ': ' + entry.text)
+                .join('\\n');
+        }
+
+        ipcRenderer.on('logs:init', async (_, init) => {
+            services = init.services;
+            selected = new Set(init.selected);
+            renderServices();
+            await Promise.all(init.selected.map(loadHistory));
+            render();
+        });
+
+        ipcRenderer.on('logs:entries', (_, newEntries) => append(newEntries));
+
+        ['layout', 'level', 'regex'].forEach(id => $(id).addEventListener('change', render));
+        $('search').addEventListener('input', render);
+        document.querySelectorAll('.stream').forEach(el => el.addEventListener('change', render));
+        $('follow').addEventListener('change', scrollToEnd);
+
+        $('pause').addEventListener('click', () => {
+            paused = !paused;
+            $('pause').textContent = paused ? 'Resume' : 'Pause';
+            $('pause').classList.toggle('paused', paused);
+            if (!paused) render();
+        });
+
+        // Scrolling away from the bottom stops following
+        document.addEventListener('scroll', (event) => {
+            const el = event.target;
+            if (el.classList && el.classList.contains('lines')) {
+                $('follow').checked = el.scrollTop + el.clientHeight >= el.scrollHeight - 4;
+            }
+        }, true);
+
+        $('copy').addEventListener('click', () => ipcRenderer.invoke('logs:copy', selectedText()));
+        $('export').addEventListener('click', () => ipcRenderer.invoke('logs:export', selectedText()));
+    </script>
+</body>
+</html>
+    `;
+  }
+}
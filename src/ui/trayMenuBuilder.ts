@@ -1,6 +1,7 @@
 import { Menu, MenuItemConstructorOptions } from 'electron';
-import type { Service, Group } from '../shared/types';
+import type { Service, Group, TrayStatus, ResourceSample } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
+import { formatBytes } from '../core/resourceMonitor';
 
 const log = createServiceLogger('TrayMenuBuilder');
 
@@ -10,6 +11,8 @@ export interface TrayMenuBuilderOptions {
   onAddFolder?: () => void;
   onAddService?: () => void;
   onOpenSettings?: () => void;
+  onViewLogs?: (serviceIds?: string[]) => void;
+  onOpenInBrowser?: (url: string) => void;
   onQuit?: () => void;
   processManager?: any; // Add process manager for real-time status
 }
@@ -52,12 +55,13 @@ export class TrayMenuBuilder {
     }
 
     return groups.map((group) => {
-      const groupServices = services.filter((s) => group.services.includes(s.name));
+      const groupServices = services.filter((s) => group.services.includes(s.id));
       const runningCount = groupServices.filter((s) => this.getServiceStatus(s) === 'running').length;
+      const startingCount = groupServices.filter((s) => this.getServiceStatus(s) === 'starting').length;
       const totalCount = groupServices.length;
 
       return {
-        label: this.formatGroupLabel(group, runningCount, totalCount),
+        label: this.formatGroupLabel(group, runningCount, totalCount, startingCount),
         click: () => this.options.onGroupToggle?.(group.id),
         submenu: this.buildGroupSubmenu(group, groupServices),
       };
@@ -75,17 +79,33 @@ export class TrayMenuBuilder {
       },
       { type: 'separator' },
       ...groupServices.map((service) => ({
-        label: `${service.name} (${this.getServiceStatus(service) || 'unknown'})`,
+        label: `${service.name}${service.port ? ` :${service.port}` : ''} (${this.formatServiceStatus(service)})${this.formatResources(service)}`,
         click: () => this.options.onServiceToggle?.(service.id),
       })),
       { type: 'separator' },
+      ...this.buildOpenInBrowserItems(groupServices),
       {
         label: runningCount === totalCount ? 'Stop All' : 'Start All',
         click: () => this.options.onGroupToggle?.(group.id),
       },
+      {
+        label: 'View Logs',
+        click: () => this.options.onViewLogs?.(groupServices.map((s) => s.id)),
+      },
     ];
   }
 
+  // One item per port a running service listens on, followed by a separator
+  private buildOpenInBrowserItems(groupServices: Service[]): MenuItemConstructorOptions[] {
+    const items: MenuItemConstructorOptions[] = groupServices.flatMap((service) =>
+      this.getServicePorts(service).map((port) => ({
+        label: `Open ${service.name} in Browser (:${port})`,
+        click: () => this.options.onOpenInBrowser?.(`http://localhost:${port}`),
+      }))
+    );
+    return items.length > 0 ? [...items, { type: 'separator' }] : [];
+  }
+
   private buildActionMenuItems(): MenuItemConstructorOptions[] {
     return [
       {
@@ -96,6 +116,10 @@ export class TrayMenuBuilder {
         label: 'Add Service Manually',
         click: () => this.options.onAddService?.(),
       },
+      {
+        label: 'View Logs',
+        click: () => this.options.onViewLogs?.(),
+      },
       {
         label: 'Settings',
         click: () => this.options.onOpenSettings?.(),
@@ -112,10 +136,58 @@ export class TrayMenuBuilder {
     ];
   }
 
-  // formatServiceLabel removed - no longer needed
+  buildTrayStatus(services: Service[]): TrayStatus {
+    const statuses = services.map((s) => this.getServiceStatus(s));
+    const runningCount = statuses.filter((status) => status === 'running').length;
+    const startingCount = statuses.filter((status) => status === 'starting').length;
+    const errorCount = statuses.filter((status) => status === 'error').length;
+    const unhealthyCount = services.filter(
+      (s) => this.getServiceStatus(s) === 'running' && this.getServiceHealth(s) === 'unhealthy'
+    ).length;
+
+    let overall: TrayStatus['overall'] = 'stopped';
+    if (errorCount > 0 || unhealthyCount > 0) {
+      overall = 'error';
+    } else if (startingCount > 0) {
+      overall = 'starting';
+    } else if (runningCount > 0) {
+      overall = 'running';
+    }
+
+    return {
+      overall,
+      runningCount,
+      startingCount,
+      unhealthyCount,
+      totalCount: services.length,
+      errorCount,
+    };
+  }
+
+  private formatServiceStatus(service: Service): string {
+    const status = this.getServiceStatus(service) || 'unknown';
+    const health = this.getServiceHealth(service);
+
+    if (status === 'running' && health !== 'unknown') {
+      return `running, ${health}`;
+    }
+    return status;
+  }
+
+  // Latest CPU and memory reading, flagged when over the memory threshold
+  private formatResources(service: Service): string {
+    const sample = this.getLatestResources(service);
+    if (!sample) {
+      return '';
+    }
 
-  private formatGroupLabel(group: Group, runningCount: number, totalCount: number): string {
-    const statusIcon = runningCount === totalCount ? '🟢' : runningCount > 0 ? '🟡' : '🔴';
+    const overThreshold = service.memoryThreshold !== undefined && sample.rss > service.memoryThreshold * 1024 * 1024;
+    return ` · ${sample.cpu}% CPU · ${formatBytes(sample.rss)}${overThreshold ? ' ⚠️' : ''}`;
+  }
+
+  private formatGroupLabel(group: Group, runningCount: number, totalCount: number, startingCount = 0): string {
+    const statusIcon =
+      runningCount === totalCount ? '🟢' : runningCount > 0 || startingCount > 0 ? '🟡' : '🔴';
     return `${statusIcon} ${group.name} (${runningCount}/${totalCount})`;
   }
 
@@ -125,6 +197,28 @@ export class TrayMenuBuilder {
     if (!this.options.processManager) {
       return service.status || 'unknown';
     }
-    return this.options.processManager.getServiceStatus(service.path);
+    return this.options.processManager.getServiceStatus(service.id);
+  }
+
+  private getServicePorts(service: Service): number[] {
+    if (!this.options.processManager) {
+      return [];
+    }
+    return this.options.processManager.getServicePorts(service.id);
+  }
+
+  private getLatestResources(service: Service): ResourceSample | undefined {
+    if (!this.options.processManager) {
+      return undefined;
+    }
+    const samples: ResourceSample[] = this.options.processManager.getServiceResources(service.id);
+    return samples[samples.length - 1];
+  }
+
+  private getServiceHealth(service: Service): string {
+    if (!this.options.processManager) {
+      return 'unknown';
+    }
+    return this.options.processManager.getServiceHealth(service.id);
   }
 } 
\ No newline at end of file
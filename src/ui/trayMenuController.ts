@@ -1,13 +1,15 @@
-import { Tray } from 'electron';
+import { Notification, Tray, shell } from 'electron';
 import { nativeImage } from 'electron';
 import path from 'path';
-// Types are imported where needed
+import type { TrayStatus } from '../shared/types';
 import { createServiceLogger } from '../shared/logger';
 import { eventBus } from '../shared/events';
 import { TrayMenuBuilder, type TrayMenuBuilderOptions } from './trayMenuBuilder';
 import { DialogService } from './dialogService';
+import { LogViewerWindow } from './logViewerWindow';
 import { ServiceDiscoveryService } from '../services/discovery';
 import { StorageService } from '../services/storage';
+import { formatBytes } from '../core/resourceMonitor';
 
 const log = createServiceLogger('TrayMenuController');
 
@@ -23,6 +25,7 @@ export class TrayMenuController {
   private processManager: any;
   private menuBuilder: TrayMenuBuilder;
   private dialogService: DialogService;
+  private logViewer: LogViewerWindow;
   private discoveryService: ServiceDiscoveryService;
   private iconPath: string;
 
@@ -33,6 +36,7 @@ export class TrayMenuController {
     
     this.menuBuilder = new TrayMenuBuilder(this.createMenuBuilderOptions());
     this.dialogService = new DialogService();
+    this.logViewer = new LogViewerWindow({ processManager: this.processManager });
     this.discoveryService = new ServiceDiscoveryService();
     
     this.setupEventListeners();
@@ -78,6 +82,8 @@ export class TrayMenuController {
       onAddFolder: () => this.handleAddFolder(),
       onAddService: () => this.handleAddService(),
       onOpenSettings: () => this.handleOpenSettings(),
+      onViewLogs: (serviceIds?: string[]) => this.handleViewLogs(serviceIds),
+      onOpenInBrowser: (url: string) => this.handleOpenInBrowser(url),
       onQuit: () => this.handleQuit(),
       processManager: this.processManager, // Pass process manager for real-time status
     };
@@ -89,6 +95,20 @@ export class TrayMenuController {
       this.updateMenu();
     });
 
+    // Crash-looping services are marked as errored
+    eventBus.on('service:crash-loop', () => {
+      this.updateMenu();
+    });
+
+    // Resource samples arrive on every status poll
+    eventBus.on('tray:update', () => {
+      this.updateMenu();
+    });
+
+    eventBus.on('service:resource-alert', (event) => {
+      this.showResourceAlert(event.service.name, event.data as { rss: number; threshold: number });
+    });
+
     // Listen for config changes
     eventBus.on('config:changed', () => {
       this.updateMenu();
@@ -114,6 +134,7 @@ export class TrayMenuController {
 
       const menu = this.menuBuilder.buildMenu(services, groups);
       this.tray.setContextMenu(menu);
+      this.tray.setToolTip(this.formatToolTip(this.menuBuilder.buildTrayStatus(services)));
       
       log.debug('Menu updated', { serviceCount: services.length, groupCount: groups.length });
     } catch (error) {
@@ -121,6 +142,20 @@ export class TrayMenuController {
     }
   }
 
+  private formatToolTip(status: TrayStatus): string {
+    const parts = [`${status.runningCount}/${status.totalCount} running`];
+    if (status.startingCount > 0) {
+      parts.push(`${status.startingCount} starting`);
+    }
+    if (status.unhealthyCount > 0) {
+      parts.push(`${status.unhealthyCount} unhealthy`);
+    }
+    if (status.errorCount > 0) {
+      parts.push(`${status.errorCount} failed`);
+    }
+    return `Runbar - ${parts.join(', ')}`;
+  }
+
   private async handleServiceToggle(serviceId: string): Promise<void> {
     try {
       log.info('Handling service toggle', { serviceId });
@@ -133,7 +168,8 @@ export class TrayMenuController {
         return;
       }
 
-      if (service.status === 'running') {
+      const status = this.processManager.getServiceStatus(service.id);
+      if (status === 'running' || status === 'starting') {
         await this.processManager.stopService(service);
       } else {
         await this.processManager.startService(service);
@@ -158,19 +194,15 @@ export class TrayMenuController {
       const services = await this.storageService.getServices();
       const groupServices = services.filter(s => group.services.includes(s.id));
       
-      const allRunning = groupServices.every(s => s.status === 'running');
+      const allRunning = groupServices.every(s => this.processManager.getServiceStatus(s.id) === 'running');
       
+      // The process manager handles dependency order and emits group events
       if (allRunning) {
-        // Stop all services in group
-        for (const service of groupServices) {
-          await this.processManager.stopService(service);
-        }
+        await this.processManager.stopGroup(group, services);
       } else {
-        // Start all services in group
-        for (const service of groupServices) {
-          await this.processManager.startService(service);
-        }
+        await this.processManager.startGroup(group, services);
       }
+      await this.updateMenu();
     } catch (error) {
       log.error('Failed to toggle group', error as Error);
     }
@@ -202,15 +234,7 @@ export class TrayMenuController {
         return;
       }
 
-      // Convert discovered services to storage format and save
-      for (const discoveredService of selectedServices) {
-        await this.storageService.addService({
-          name: discoveredService.name,
-          path: discoveredService.path,
-          command: discoveredService.command,
-          projectType: discoveredService.projectType,
-        });
-      }
+      await this.storageService.addDiscoveredServices(selectedServices);
 
       log.info('Services added from folder', { 
         folderPath, 
@@ -248,6 +272,12 @@ export class TrayMenuController {
         path: formData.path,
         command: formData.command,
         projectType: formData.projectType as any || projectInfo?.projectType,
+        ...(formData.port && { port: formData.port }),
+        ...(formData.autoPort && { autoPort: true }),
+        ...(formData.env && Object.keys(formData.env).length > 0 && { env: formData.env }),
+        ...(formData.envFiles && formData.envFiles.length > 0 && { envFiles: formData.envFiles }),
+        ...(formData.useLoginShellEnv && { useLoginShellEnv: true }),
+        ...(formData.detached && { detached: true }),
       });
 
       log.info('Service added manually', { name: formData.name });
@@ -257,6 +287,41 @@ export class TrayMenuController {
     }
   }
 
+  private async handleViewLogs(serviceIds?: string[]): Promise<void> {
+    try {
+      log.info('Handling view logs request', { serviceIds });
+      const services = await this.storageService.getServices();
+      await this.logViewer.open(services, serviceIds);
+    } catch (error) {
+      log.error('Failed to open log viewer', error as Error);
+    }
+  }
+
+  private async handleOpenInBrowser(url: string): Promise<void> {
+    try {
+      log.info('Opening service in browser', { url });
+      await shell.openExternal(url);
+    } catch (error) {
+      log.error('Failed to open browser', error as Error);
+    }
+  }
+
+  private async showResourceAlert(serviceName: string, data: { rss: number; threshold: number }): Promise<void> {
+    try {
+      const settings = await this.storageService.getSettings();
+      if (settings.notifications === false || !Notification.isSupported()) {
+        return;
+      }
+
+      new Notification({
+        title: `${serviceName} is using a lot of memory`,
+        body: `${formatBytes(data.rss)} exceeds the ${formatBytes(data.threshold)} threshold`,
+      }).show();
+    } catch (error) {
+      log.warn('Failed to show resource alert', { service: serviceName, error: error as Error });
+    }
+  }
+
   private async handleOpenSettings(): Promise<void> {
     try {
       log.info('Handling open settings request');
@@ -273,6 +338,7 @@ export class TrayMenuController {
       
       // Close all dialog windows
       this.dialogService.closeAllWindows();
+      this.logViewer.close();
       
       // Emit app shutdown event
       eventBus.emitAppShutdown();
@@ -291,6 +357,7 @@ export class TrayMenuController {
       }
       
       this.dialogService.closeAllWindows();
+      this.logViewer.close();
       
       log.info('Tray menu controller destroyed');
     } catch (error) {
@@ -0,0 +1,143 @@
+import os from 'os';
+import path from 'path';
+import { mkdtempSync } from 'fs';
+import { PassThrough } from 'stream';
+import { parseArgs, runCli } from '../../src/cli';
+import { ControlServer } from '../../src/services/controlServer';
+import type { Service, Group } from '../../src/shared/types';
+
+const api: Service = {
+  id: 'api-1',
+  name: 'API',
+  path: '/projects/api',
+  command: 'npm start',
+  memoryThreshold: 256,
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+const stack: Group = {
+  id: 'group-1',
+  name: 'Stack',
+  services: ['api-1'],
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+describe('runbar CLI', () => {
+  describe('parseArgs', () => {
+    it('should split the command, positionals and flags', () => {
+      expect(parseArgs(['logs', 'api', '-f', '-n', '20', '--since=2024-01-01'])).toEqual({
+        command: 'logs',
+        positionals: ['api'],
+        flags: { follow: true, lines: '20', since: '2024-01-01' },
+      });
+    });
+
+    it('should reject a value flag without a value', () => {
+      expect(() => parseArgs(['logs', 'api', '-n'])).toThrow('Missing value for --lines');
+    });
+  });
+
+  describe('against a running app', () => {
+    let server: ControlServer;
+    let socketPath: string;
+    const calls: string[] = [];
+
+    const run = async (...argv: string[]) => {
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      let out = '';
+      let err = '';
+      stdout.on('data', chunk => (out += chunk));
+      stderr.on('data', chunk => (err += chunk));
+      const code = await runCli(argv, { socketPath, stdout, stderr });
+      return { code, out, err };
+    };
+
+    beforeEach(async () => {
+      calls.length = 0;
+      socketPath = path.join(mkdtempSync(path.join(os.tmpdir(), 'runbar-cli-')), 'runbar.sock');
+      server = new ControlServer({
+        socketPath,
+        storageService: {
+          getServices: async () => [api],
+          getGroups: async () => [stack],
+        },
+        processManager: {
+          startService: async (s) => {
+            calls.push(`start ${s.id}`);
+            return true;
+          },
+          stopService: async (s) => {
+            calls.push(`stop ${s.id}`);
+            return true;
+          },
+          restartService: async () => true,
+          startGroup: async (g) => {
+            calls.push(`start group ${g.id}`);
+            return [{ service: 'api-1', success: false, error: 'Port 3000 in use' }];
+          },
+          stopGroup: async () => [],
+          getServiceStatus: () => 'running',
+          getServiceHealth: () => 'unknown',
+          getServicePorts: () => [],
+          getServiceResources: () => [
+            { timestamp: new Date(), cpu: 12.5, rss: 300 * 1024 * 1024, threads: 11, fds: 42, processes: 2 },
+          ],
+          readLogs: async () => [{ timestamp: new Date(), stream: 'stdout', text: 'listening on 3000' }],
+        },
+      });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should list services and groups', async () => {
+      const { code, out } = await run('ls');
+
+      expect(code).toBe(0);
+      expect(out).toContain('API      running  unknown  -     /projects/api');
+      expect(out).toContain('Stack  API');
+    });
+
+    it('should print status as JSON', async () => {
+      const { out } = await run('status', '--json');
+
+      expect(JSON.parse(out)).toMatchObject({ running: true, services: [{ id: 'api-1', status: 'running' }] });
+    });
+
+    it('should start a service by name and fall back to groups', async () => {
+      await expect(run('start', 'api')).resolves.toMatchObject({ code: 0, out: 'Started API\n' });
+
+      const group = await run('start', 'stack');
+      expect(group.code).toBe(1);
+      expect(group.out).toContain('✗ API: Port 3000 in use');
+      expect(calls).toEqual(['start api-1', 'start group group-1']);
+    });
+
+    it('should report unknown targets on stderr', async () => {
+      await expect(run('stop', 'nothing')).resolves.toMatchObject({
+        code: 1,
+        err: 'runbar: Unknown service or group: nothing\n',
+      });
+    });
+
+    it('should show resource usage and flag services over their memory threshold', async () => {
+      const { code, out } = await run('top');
+
+      expect(code).toBe(0);
+      expect(out).toContain('SERVICE  CPU    MEM       THREADS  FDS  PROCS');
+      expect(out).toContain('API      12.5%  300 MB !  11       42   2');
+    });
+
+    it('should print recent logs', async () => {
+      const { code, out } = await run('logs', 'api', '-n', '5');
+
+      expect(code).toBe(0);
+      expect(out).toMatch(/^\d{2}:\d{2}:\d{2} listening on 3000\n$/);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import os from 'os';
+import path from 'path';
+import { mkdtempSync } from 'fs';
+import { spawn, type ChildProcess } from 'child_process';
+import { PassThrough } from 'stream';
+import { runCli } from '../../src/cli';
+import { ProcessLedger } from '../../src/core/processLedger';
+import { getProcessStartTime, isProcessAlive } from '../../src/core/processTree';
+import { config } from '../../src/shared/config';
+import type { Service } from '../../src/shared/types';
+
+const worker: Service = {
+  id: 'worker-1',
+  name: 'Worker',
+  path: os.tmpdir(),
+  command: 'sleep 30',
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+let service = worker;
+
+jest.mock('../../src/services/storage', () => ({
+  StorageService: jest.fn().mockImplementation(() => ({
+    initialize: async () => undefined,
+    getServices: async () => [service],
+    getGroups: async () => [],
+    getSettings: async () => ({}),
+  })),
+}));
+
+describe('runbar CLI in headless mode', () => {
+  const originalConfigDir = process.env['CONFIG_DIR'];
+  let configDir: string;
+  let ledger: ProcessLedger;
+  let leftover: ChildProcess;
+
+  const run = async (...argv: string[]) => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let out = '';
+    let err = '';
+    stdout.on('data', chunk => (out += chunk));
+    stderr.on('data', chunk => (err += chunk));
+    const code = await runCli(argv, { socketPath: path.join(configDir, 'runbar.sock'), stdout, stderr });
+    return { code, out, err };
+  };
+
+  // A process a crashed session started and recorded
+  const recordLeftover = async () => {
+    leftover = spawn('sleep', ['30'], { detached: true, stdio: 'ignore' });
+    await ledger.record({
+      serviceId: service.id,
+      servicePath: service.path,
+      pid: leftover.pid!,
+      command: 'sleep 30',
+      processStartTime: await getProcessStartTime(leftover.pid!),
+      startedAt: new Date().toISOString(),
+      ...(service.detached && { detached: true }),
+    });
+  };
+
+  beforeEach(() => {
+    service = worker;
+    configDir = mkdtempSync(path.join(os.tmpdir(), 'runbar-headless-'));
+    process.env['CONFIG_DIR'] = configDir;
+    ledger = new ProcessLedger(config.getLedgerPath(configDir));
+  });
+
+  afterEach(() => {
+    leftover?.kill('SIGKILL');
+    if (originalConfigDir === undefined) {
+      delete process.env['CONFIG_DIR'];
+    } else {
+      process.env['CONFIG_DIR'] = originalConfigDir;
+    }
+  });
+
+  it('should leave processes from an earlier session running and in the ledger', async () => {
+    await recordLeftover();
+
+    const { code, out } = await run('ls');
+
+    expect(code).toBe(0);
+    expect(out).toContain('Worker');
+    expect(await isProcessAlive(leftover.pid!)).toBe(true);
+    expect(await ledger.read()).toEqual([expect.objectContaining({ serviceId: service.id, pid: leftover.pid })]);
+  });
+
+  it('should stop a service that outlived the app', async () => {
+    await recordLeftover();
+
+    await expect(run('stop', 'worker')).resolves.toMatchObject({ code: 0, out: 'Stopped Worker\n' });
+    expect(await isProcessAlive(leftover.pid!)).toBe(false);
+    expect(await ledger.read()).toEqual([]);
+  });
+
+  it('should restart a detached service and leave the new process running', async () => {
+    service = { ...worker, detached: true };
+    await recordLeftover();
+
+    const { code, out } = await run('restart', 'worker');
+    const [entry] = await ledger.read();
+    try {
+      expect(code).toBe(0);
+      expect(out).toBe('Restarted Worker\n');
+      expect(await isProcessAlive(leftover.pid!)).toBe(false);
+      expect(entry).toEqual(expect.objectContaining({ serviceId: service.id, detached: true }));
+      expect(await isProcessAlive(entry!.pid)).toBe(true);
+    } finally {
+      if (entry) {
+        process.kill(-entry.pid, 'SIGKILL');
+      }
+    }
+  });
+
+  it('should still refuse to stop when nothing is running', async () => {
+    await expect(run('stop', 'worker')).resolves.toMatchObject({
+      code: 1,
+      err: 'runbar: Runbar is not running; nothing to stop\n',
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { withDependencies, findDependencyCycle, assertNoDependencyCycle, getDependents } from '../../src/core/dependencyGraph';
+import type { Service } from '../../src/shared/types';
+
+const createService = (id: string, dependencies: string[] = []): Service => ({
+  id,
+  name: id,
+  path: `/path/${id}`,
+  command: 'npm start',
+  dependencies,
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+describe('dependencyGraph', () => {
+  describe('withDependencies', () => {
+    it('should include transitive dependencies outside the selection', () => {
+      const db = createService('db');
+      const api = createService('api', ['db']);
+      const web = createService('web', ['api']);
+
+      const result = withDependencies([web], [db, api, web]);
+
+      expect(result.map(s => s.id).sort()).toEqual(['api', 'db', 'web']);
+    });
+
+    it('should ignore unknown dependency IDs', () => {
+      const web = createService('web', ['missing']);
+
+      expect(withDependencies([web], [web])).toEqual([web]);
+    });
+  });
+
+  describe('findDependencyCycle', () => {
+    it('should return null for an acyclic graph', () => {
+      const services = [createService('db'), createService('api', ['db']), createService('worker', ['db'])];
+
+      expect(findDependencyCycle(services)).toBeNull();
+    });
+
+    it('should return the services forming a cycle', () => {
+      const services = [createService('a', ['b']), createService('b', ['c']), createService('c', ['a'])];
+
+      expect(findDependencyCycle(services)).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should throw a ValidationError when asserting a cyclic graph', () => {
+      const services = [createService('a', ['a'])];
+
+      expect(() => assertNoDependencyCycle(services)).toThrow('Dependency cycle detected: a -> a');
+    });
+  });
+
+  describe('getDependents', () => {
+    it('should return services that depend on the given service', () => {
+      const db = createService('db');
+      const api = createService('api', ['db']);
+      const worker = createService('worker', ['db']);
+
+      expect(getDependents(db, [db, api, worker])).toEqual([api, worker]);
+    });
+  });
+});
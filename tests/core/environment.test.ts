@@ -0,0 +1,77 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { formatDotenv, parseDotenv, resolveServiceEnvironment } from '../../src/core/environment';
+
+describe('environment', () => {
+  describe('parseDotenv', () => {
+    it('should parse comments, export prefixes and quoted values', () => {
+      const content = [
+        '# comment',
+        '',
+        'export API_URL=http://localhost:3000',
+        'PLAIN=value # trailing comment',
+        "SINGLE='literal \\n $HOME'",
+        'DOUBLE="line\\nbreak \\"quoted\\""',
+        'EMPTY=',
+        'not a variable',
+      ].join('\n');
+
+      expect(parseDotenv(content)).toEqual({
+        API_URL: 'http://localhost:3000',
+        PLAIN: 'value',
+        SINGLE: 'literal \\n $HOME',
+        DOUBLE: 'line\nbreak "quoted"',
+        EMPTY: '',
+      });
+    });
+
+    it('should round-trip values through formatDotenv', () => {
+      const env = {
+        PLAIN: 'value',
+        COMMENT: 'a #b',
+        PADDED: '  spaced  ',
+        QUOTED: '"quoted"',
+        SINGLE: "'single'",
+        ESCAPES: 'C:\\dir "x"\nnext\tline',
+        HASH: 'abc#def',
+        EMPTY: '',
+      };
+
+      expect(parseDotenv(formatDotenv(env))).toEqual(env);
+      expect(formatDotenv({ PLAIN: 'value', COMMENT: 'a #b' })).toBe('PLAIN=value\nCOMMENT="a #b"');
+    });
+  });
+
+  describe('resolveServiceEnvironment', () => {
+    it('should let env files override the inherited environment and service env override both', async () => {
+      const dir = await mkdtemp(path.join(os.tmpdir(), 'runbar-env-'));
+      await writeFile(path.join(dir, '.env'), 'HOME=/from-env\nSHARED=env\nONLY_FILE=1\n');
+      await writeFile(path.join(dir, '.env.local'), 'SHARED=local\n');
+
+      const resolved = await resolveServiceEnvironment({
+        path: dir,
+        envFiles: ['.env', '.env.local', '.env.missing'],
+        env: { SHARED: 'service' },
+      });
+
+      expect(resolved.env['HOME']).toBe('/from-env');
+      expect(resolved.env['ONLY_FILE']).toBe('1');
+      expect(resolved.env['SHARED']).toBe('service');
+      expect(resolved.sources['HOME']).toEqual({ source: 'env-file', file: '.env' });
+      expect(resolved.sources['SHARED']).toEqual({ source: 'service' });
+      expect(resolved.sources['PATH']).toEqual({ source: 'runbar' });
+      expect(resolved.warnings).toHaveLength(1);
+      expect(resolved.warnings[0]).toContain('.env.missing');
+    });
+
+    it('should inject PORT from the service port unless the service env sets it', async () => {
+      const injected = await resolveServiceEnvironment({ path: os.tmpdir(), port: 4001 });
+      expect(injected.env['PORT']).toBe('4001');
+      expect(injected.sources['PORT']).toEqual({ source: 'port' });
+
+      const explicit = await resolveServiceEnvironment({ path: os.tmpdir(), port: 4001, env: { PORT: '8080' } });
+      expect(explicit.env['PORT']).toBe('8080');
+    });
+  });
+});
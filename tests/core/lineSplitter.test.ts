@@ -0,0 +1,28 @@
+import { LineSplitter } from '../../src/core/lineSplitter';
+
+describe('LineSplitter', () => {
+  const split = (chunks: Buffer[], end = true): string[] => {
+    const lines: string[] = [];
+    const splitter = new LineSplitter(line => lines.push(line));
+    chunks.forEach(chunk => splitter.write(chunk));
+    if (end) {
+      splitter.end();
+    }
+    return lines;
+  };
+
+  it('should join partial lines and split chunks with several lines', () => {
+    expect(split([Buffer.from('hel'), Buffer.from('lo\nwor'), Buffer.from('ld\r\nfoo\nbar\n')]))
+      .toEqual(['hello', 'world', 'foo', 'bar']);
+  });
+
+  it('should keep a trailing partial line until the stream ends', () => {
+    expect(split([Buffer.from('done\npartial')], false)).toEqual(['done']);
+    expect(split([Buffer.from('done\npartial')])).toEqual(['done', 'partial']);
+  });
+
+  it('should decode multi-byte characters split across chunks', () => {
+    const bytes = Buffer.from('héllo ✓\n');
+    expect(split([bytes.subarray(0, 2), bytes.subarray(2, 9), bytes.subarray(9)])).toEqual(['héllo ✓']);
+  });
+});
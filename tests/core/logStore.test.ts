@@ -0,0 +1,64 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readdir } from 'fs/promises';
+import { LogStore } from '../../src/core/logStore';
+import type { LogEntry } from '../../src/shared/types';
+
+const entry = (text: string, timestamp: string): LogEntry => ({ text, stream: 'stdout', timestamp: new Date(timestamp) });
+
+describe('LogStore', () => {
+  let logDir: string;
+
+  beforeEach(async () => {
+    logDir = await mkdtemp(path.join(os.tmpdir(), 'runbar-logstore-'));
+  });
+
+  it('should persist entries and filter them by time and limit', async () => {
+    const store = new LogStore(logDir);
+    store.append('api', entry('one', '2024-01-01T10:00:00Z'));
+    store.append('api', entry('two', '2024-01-01T11:00:00Z'));
+    store.append('api', entry('three', '2024-01-01T12:00:00Z'));
+    await store.close();
+
+    const reopened = new LogStore(logDir);
+    const texts = async (query = {}) => (await reopened.readLogs('api', query)).map(e => e.text);
+
+    await expect(texts()).resolves.toEqual(['one', 'two', 'three']);
+    await expect(texts({ since: new Date('2024-01-01T10:30:00Z') })).resolves.toEqual(['two', 'three']);
+    await expect(texts({ until: new Date('2024-01-01T11:00:00Z') })).resolves.toEqual(['one', 'two']);
+    await expect(texts({ limit: 2 })).resolves.toEqual(['two', 'three']);
+    await expect(reopened.readLogs('unknown')).resolves.toEqual([]);
+  });
+
+  it('should rotate into compressed archives and read across them', async () => {
+    const store = new LogStore(logDir, { maxFileSize: 1 });
+    store.append('api', entry('one', '2024-01-01T10:00:00Z'));
+    await store.readLogs('api');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    store.append('api', entry('two', '2024-01-01T11:00:00Z'));
+    await store.readLogs('api');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const files = await readdir(path.join(logDir, 'api'));
+    expect(files.filter(name => name.endsWith('.log.gz'))).toHaveLength(2);
+    await expect(store.readLogs('api')).resolves.toEqual([
+      entry('one', '2024-01-01T10:00:00Z'),
+      entry('two', '2024-01-01T11:00:00Z'),
+    ]);
+    await store.close();
+  });
+
+  it('should prune archives beyond maxArchives', async () => {
+    const store = new LogStore(logDir, { maxFileSize: 1, maxArchives: 1 });
+    for (const text of ['one', 'two', 'three']) {
+      store.append('api', entry(text, '2024-01-01T10:00:00Z'));
+      await store.readLogs('api');
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    const files = await readdir(path.join(logDir, 'api'));
+    expect(files).toHaveLength(1);
+    await expect(store.readLogs('api')).resolves.toEqual([entry('three', '2024-01-01T10:00:00Z')]);
+    await store.close();
+  });
+});
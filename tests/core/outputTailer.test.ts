@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutputTailer, openOutputFile } from '../../src/core/outputTailer';
+
+describe('OutputTailer', () => {
+  let filePath: string;
+  let received: string;
+  let tailer: OutputTailer | null;
+
+  beforeEach(() => {
+    filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-tailer-')), 'service', 'stdout.out');
+    received = '';
+    tailer = null;
+  });
+
+  afterEach(async () => {
+    await tailer?.stop();
+  });
+
+  const follow = (maxSize?: number) => {
+    tailer = new OutputTailer(filePath, (chunk) => { received += chunk.toString(); }, { interval: 10, ...(maxSize && { maxSize }) });
+    tailer.start();
+    return tailer;
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    const deadline = Date.now() + 2000;
+    while (!condition() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  it('should open an empty, private output file', async () => {
+    await (await openOutputFile(filePath)).close();
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+
+    fs.writeFileSync(filePath, 'previous run\n');
+    await (await openOutputFile(filePath)).close();
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('');
+  });
+
+  it('should follow appended output and drain it on stop', async () => {
+    const handle = await openOutputFile(filePath);
+    const output = follow();
+
+    await handle.write('first\n');
+    await waitFor(() => received === 'first\n');
+    expect(received).toBe('first\n');
+
+    await handle.write('last\n');
+    await output.stop();
+    await handle.close();
+
+    expect(received).toBe('first\nlast\n');
+    expect(fs.statSync(filePath).size).toBe(0);
+  });
+
+  it('should truncate the file once maxSize has been read and keep following it', async () => {
+    const handle = await openOutputFile(filePath);
+    follow(8);
+
+    await handle.write('0123456789\n');
+    await waitFor(() => received.length === 11);
+    await waitFor(() => fs.statSync(filePath).size === 0);
+    expect(fs.statSync(filePath).size).toBe(0);
+
+    await handle.write('more\n');
+    await waitFor(() => received.endsWith('more\n'));
+    await handle.close();
+
+    expect(received).toBe('0123456789\nmore\n');
+  });
+});
@@ -0,0 +1,53 @@
+import net from 'net';
+import { detectPortsInLine, parseProcNetTcp, findListeningPorts } from '../../src/core/portDetection';
+
+describe('portDetection', () => {
+  describe('detectPortsInLine', () => {
+    it.each([
+      ['  ➜  Local:   http://localhost:5173/', [5173]],
+      ['Listening on :8080', [8080]],
+      ['* Listening on http://127.0.0.1:3000', [3000]],
+      ['Server listening on port 4000', [4000]],
+      ['ready - started server on 0.0.0.0:3000, url: http://localhost:3000', [3000]],
+      ['Starting development server at http://127.0.0.1:8000/', [8000]],
+    ])('should find the port in %p', (line, ports) => {
+      expect(detectPortsInLine(line)).toEqual(ports);
+    });
+
+    it.each([
+      ['Proxying /api to http://localhost:4000'],
+      ['Error: listen EADDRINUSE: address already in use :::3000'],
+      ['[12:30:45] Server ready in 320ms'],
+      ['Connected to https://api.example.com:443'],
+    ])('should ignore %p', (line) => {
+      expect(detectPortsInLine(line)).toEqual([]);
+    });
+  });
+
+  describe('parseProcNetTcp', () => {
+    it('should map inodes of listening sockets to ports', () => {
+      const content = [
+        '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode',
+        '   0: 0100007F:1F90 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 12345 1',
+        '   1: 0100007F:D431 0100007F:1F90 01 00000000:00000000 00:00000000 00000000  1000        0 12346 1',
+        '   2: 00000000000000000000000000000000:1435 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 12347 1',
+      ].join('\n');
+
+      expect(parseProcNetTcp(content)).toEqual(new Map([['12345', 8080], ['12347', 5173]]));
+    });
+  });
+
+  describe('findListeningPorts', () => {
+    it('should find the ports this process listens on', async () => {
+      const server = net.createServer();
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      const { port } = server.address() as net.AddressInfo;
+
+      try {
+        expect(await findListeningPorts([process.pid])).toContain(port);
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import net from 'net';
+import { isPortInUse, findFreePort, waitForPortFree } from '../../src/core/ports';
+
+const listen = (port = 0): Promise<net.Server> => new Promise((resolve) => {
+  const server = net.createServer();
+  server.listen(port, '127.0.0.1', () => resolve(server));
+});
+
+const close = (server: net.Server): Promise<void> => new Promise(resolve => server.close(() => resolve()));
+
+describe('ports', () => {
+  let server: net.Server;
+  let port: number;
+
+  beforeEach(async () => {
+    server = await listen();
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    if (server.listening) {
+      await close(server);
+    }
+  });
+
+  it('should report a port held on the loopback address as in use', async () => {
+    expect(await isPortInUse(port)).toBe(true);
+  });
+
+  it('should report a released port as free', async () => {
+    await close(server);
+    expect(await isPortInUse(port)).toBe(false);
+  });
+
+  it('should find the next free port after a taken one', async () => {
+    const next = await findFreePort(port);
+    expect(next).not.toBeNull();
+    expect(next).toBeGreaterThan(port);
+  });
+
+  it('should wait until the port is released', async () => {
+    setTimeout(() => server.close(), 150);
+    expect(await waitForPortFree(port, 2000)).toBe(true);
+  });
+});
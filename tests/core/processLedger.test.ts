@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProcessLedger, checkLedgerEntry, commandMatches, type LedgerEntry } from '../../src/core/processLedger';
+import { getProcessCommand, getProcessStartTime } from '../../src/core/processTree';
+
+const createEntry = (overrides: Partial<LedgerEntry> = {}): LedgerEntry => ({
+  serviceId: 'api-1',
+  servicePath: '/projects/api',
+  pid: 4242,
+  command: 'npm run dev',
+  processStartTime: 123,
+  startedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('processLedger', () => {
+  describe('commandMatches', () => {
+    it.each([
+      ['/bin/sh -c npm run dev', 'npm run dev', true],
+      ['npm run dev', 'npm run dev', true],
+      ['/usr/local/bin/npm run dev', 'npm run dev', true],
+      ['/usr/bin/python3 manage.py runserver', 'npm run dev', false],
+      ['', 'npm run dev', false],
+    ])('%p against %p should be %p', (actual, command, expected) => {
+      expect(commandMatches(actual, command)).toBe(expected);
+    });
+  });
+
+  describe('ProcessLedger', () => {
+    let ledgerPath: string;
+    let ledger: ProcessLedger;
+
+    beforeEach(() => {
+      ledgerPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-ledger-')), 'processes.json');
+      ledger = new ProcessLedger(ledgerPath);
+    });
+
+    it('should read an empty ledger when the file is missing or corrupt', async () => {
+      await expect(ledger.read()).resolves.toEqual([]);
+
+      fs.writeFileSync(ledgerPath, '{not json');
+      await expect(ledger.read()).resolves.toEqual([]);
+    });
+
+    it('should keep one entry per service across concurrent updates', async () => {
+      await Promise.all([
+        ledger.record(createEntry()),
+        ledger.record(createEntry({ serviceId: 'web-1', pid: 5000 })),
+        ledger.record(createEntry({ pid: 4343 })),
+      ]);
+
+      const entries = await ledger.read();
+      expect(entries.map(e => [e.serviceId, e.pid])).toEqual([['web-1', 5000], ['api-1', 4343]]);
+      expect(fs.statSync(ledgerPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should only remove the entry of the given pid', async () => {
+      await ledger.record(createEntry({ pid: 4343 }));
+
+      await ledger.remove('api-1', 4242);
+      expect(await ledger.read()).toHaveLength(1);
+
+      await ledger.remove('api-1');
+      expect(await ledger.read()).toEqual([]);
+    });
+  });
+
+  describe('checkLedgerEntry', () => {
+    it('should accept the process it recorded', async () => {
+      const entry = createEntry({
+        pid: process.pid,
+        command: (await getProcessCommand(process.pid))!,
+        processStartTime: await getProcessStartTime(process.pid),
+      });
+
+      await expect(checkLedgerEntry(entry)).resolves.toBe('running');
+    });
+
+    it('should detect a reused pid by its start time or command', async () => {
+      const command = (await getProcessCommand(process.pid))!;
+      const startTime = await getProcessStartTime(process.pid);
+
+      await expect(checkLedgerEntry(createEntry({ pid: process.pid, command, processStartTime: startTime! + 1 })))
+        .resolves.toBe('replaced');
+      await expect(checkLedgerEntry(createEntry({ pid: process.pid, processStartTime: startTime })))
+        .resolves.toBe('replaced');
+    });
+
+    it('should report processes that have exited', async () => {
+      await expect(checkLedgerEntry(createEntry({ pid: 2 ** 22 + 1 }))).resolves.toBe('exited');
+    });
+  });
+});
@@ -0,0 +1,737 @@
+import { jest } from '@jest/globals';
+import os from 'os';
+import net from 'net';
+import fs from 'fs';
+import path from 'path';
+import { ProcessManager } from '../../src/core/processManager';
+import { spawn } from 'child_process';
+import { isProcessAlive, getProcessStartTime } from '../../src/core/processTree';
+import { ProcessLedger } from '../../src/core/processLedger';
+import { isPortInUse } from '../../src/core/ports';
+import { eventBus } from '../../src/shared/events';
+import type { Service, Group, PromptOptions } from '../../src/shared/types';
+
+const createService = (command: string, name = 'Test Service', path = os.tmpdir()): Service => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  path,
+  command,
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+describe('ProcessManager', () => {
+  let processManager: ProcessManager;
+
+  beforeEach(() => {
+    processManager = new ProcessManager({
+      gracefulShutdownTimeout: 500,
+      logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+    });
+  });
+
+  afterEach(async () => {
+    await processManager.stopAllServices();
+    processManager.destroy();
+    eventBus.removeAllListeners('service:stopped');
+    eventBus.removeAllListeners('service:restarting');
+    eventBus.removeAllListeners('service:crash-loop');
+    eventBus.removeAllListeners('service:error');
+    eventBus.removeAllListeners('service:started');
+    eventBus.removeAllListeners('group:error');
+    eventBus.removeAllListeners('service:log-update');
+  });
+
+  describe('stopService', () => {
+    it('should stop a service with SIGTERM and report the signal', async () => {
+      const service = createService('sleep 30');
+      const listener = jest.fn();
+      eventBus.on('service:stopped', listener);
+
+      await processManager.startService(service);
+      const stopped = await processManager.stopService(service);
+
+      expect(stopped).toBe(true);
+      expect(processManager.getServiceStatus(service.id)).toBe('stopped');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'stopped',
+        data: { exitCode: null, signal: 'SIGTERM' },
+      }));
+    });
+
+    it('should escalate to SIGKILL when SIGTERM is ignored', async () => {
+      const service = createService('trap "" TERM; echo ready; while true; do sleep 0.1; done');
+      const listener = jest.fn();
+      eventBus.on('service:stopped', listener);
+      const ready = new Promise(resolve => eventBus.once('service:log-update', resolve));
+
+      await processManager.startService(service);
+      await ready;
+      const startedAt = Date.now();
+      await processManager.stopService(service);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        data: { exitCode: null, signal: 'SIGKILL' },
+      }));
+    });
+
+    it('should terminate grandchildren spawned by the shell wrapper', async () => {
+      const service = createService('sleep 30 & echo $!; wait');
+      const pidLine = new Promise<string>(resolve =>
+        eventBus.once('service:log-update', payload => resolve(payload.entry.text))
+      );
+
+      await processManager.startService(service);
+      const grandchildPid = parseInt(await pidLine, 10);
+      expect(await isProcessAlive(grandchildPid)).toBe(true);
+
+      await processManager.stopService(service);
+
+      expect(await isProcessAlive(grandchildPid)).toBe(false);
+    });
+
+    it('should only stop the given service of those sharing a directory', async () => {
+      const web = createService('sleep 30', 'Blog Web');
+      const worker = createService('sleep 30', 'Blog Worker');
+
+      await processManager.startService(web);
+      await processManager.startService(worker);
+      await processManager.stopService(web);
+
+      expect(processManager.getServiceStatus(web.id)).toBe('stopped');
+      expect(processManager.getServiceStatus(worker.id)).toBe('running');
+    });
+
+    it('should return false when the service is not running', async () => {
+      await expect(processManager.stopService(createService('sleep 30'))).resolves.toBe(false);
+    });
+  });
+
+  describe('unexpected exit', () => {
+    it('should emit service:stopped with the real exit code', async () => {
+      const service = createService('exit 3');
+      const stopped = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      await processManager.startService(service);
+
+      await expect(stopped).resolves.toMatchObject({
+        data: { exitCode: 3, signal: null },
+      });
+    });
+  });
+
+  describe('readLogs', () => {
+    it('should keep logs of a previous run after the service exits', async () => {
+      const service = createService('echo first; echo second; exit 1');
+      const stopped = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      await processManager.startService(service);
+      await stopped;
+
+      const entries = await processManager.readLogs(service.id);
+      expect(entries.map(({ stream, text }) => ({ stream, text }))).toEqual([
+        { stream: 'stdout', text: 'first' },
+        { stream: 'stdout', text: 'second' },
+        { stream: 'system', text: 'Process exited with code 1' },
+      ]);
+      await expect(processManager.readLogs(service.id, { limit: 1 })).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('log capture', () => {
+    it('should emit one entry per line tagged with its stream', async () => {
+      const service = createService('printf "a\\nb\\n"; echo oops >&2; sleep 30');
+      const entries: { stream: string; text: string }[] = [];
+      const received = new Promise<void>(resolve => {
+        eventBus.on('service:log-update', ({ entry }) => {
+          entries.push({ stream: entry.stream, text: entry.text });
+          if (entries.length === 3) {
+            resolve();
+          }
+        });
+      });
+
+      await processManager.startService(service);
+      await received;
+
+      expect(entries).toEqual(expect.arrayContaining([
+        { stream: 'stdout', text: 'a' },
+        { stream: 'stdout', text: 'b' },
+        { stream: 'stderr', text: 'oops' },
+      ]));
+      expect(processManager.getServiceLogs(service.id)).toHaveLength(3);
+    });
+  });
+
+  describe('port conflicts', () => {
+    const conflictCommand = 'echo "Error: listen EADDRINUSE: address already in use :::4123" >&2; exit 1';
+
+    it('should ask the injected prompter and adopt the port when told to', async () => {
+      const prompts: PromptOptions[] = [];
+      const exited = new Promise(resolve => eventBus.once('service:stopped', resolve));
+      processManager.destroy();
+      processManager = new ProcessManager({
+        logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+        prompter: {
+          showMessage: async (options) => {
+            prompts.push(options);
+            await exited;
+            return 1; // Mark as Running
+          },
+        },
+      });
+      const service = createService(conflictCommand);
+
+      await processManager.startService(service);
+      await exited;
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]!.message).toContain('Port 4123 is already in use');
+      expect(processManager.getServiceStatus(service.id)).toBe('running');
+      expect(processManager.getServiceLogs(service.id).map(e => e.text)).toContainEqual(
+        expect.stringContaining('Adopted running process')
+      );
+    });
+
+    describe('before spawn', () => {
+      let holder: net.Server;
+      let port: number;
+
+      beforeEach(async () => {
+        holder = net.createServer();
+        await new Promise<void>(resolve => holder.listen(0, '127.0.0.1', () => resolve()));
+        port = (holder.address() as net.AddressInfo).port;
+      });
+
+      afterEach(() => {
+        if (holder.listening) {
+          holder.close();
+        }
+      });
+
+      it('should refuse to start with the fail policy', async () => {
+        const errors: string[] = [];
+        eventBus.on('service:error', ({ data }) => errors.push((data as { error: string }).error));
+        const service = { ...createService('sleep 30'), port, onPortConflict: 'fail' as const };
+
+        expect(await processManager.startService(service)).toBe(false);
+        expect(errors[0]).toContain(`Port ${port} is already in use`);
+        expect(processManager.getServiceStatus(service.id)).toBe('stopped');
+      });
+
+      it('should start on the next free port with PORT set', async () => {
+        const service = { ...createService('echo "port=$PORT"; sleep 30'), port, onPortConflict: 'pick-next-free-port' as const };
+        const printed = new Promise<string>(resolve => {
+          eventBus.on('service:log-update', ({ entry }) => {
+            if (entry.stream === 'stdout') {
+              resolve(entry.text);
+            }
+          });
+        });
+
+        expect(await processManager.startService(service)).toBe(true);
+        const line = await printed;
+        expect(parseInt(line.replace('port=', ''), 10)).toBeGreaterThan(port);
+      });
+
+      it('should kill the process holding the port with kill-and-restart', async () => {
+        holder.close();
+        const { spawn } = await import('child_process');
+        const owner = spawn(process.execPath, ['-e', `require('net').createServer().listen(${port}, '127.0.0.1')`]);
+        const ownerExit = new Promise(resolve => owner.once('exit', resolve));
+        const deadline = Date.now() + 5000;
+        while (!(await isPortInUse(port)) && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        const service = { ...createService('sleep 30'), port, onPortConflict: 'kill-and-restart' as const };
+
+        expect(await processManager.startService(service)).toBe(true);
+        await ownerExit;
+        expect(processManager.getServiceStatus(service.id)).toBe('running');
+      });
+    });
+
+    describe('held by another service', () => {
+      let port: number;
+      let holder: Service;
+
+      // The port ends up with a grandchild (sh -> sh -> node) of the holding
+      // service's own process, which shares the other service's directory
+      beforeEach(async () => {
+        const probe = net.createServer();
+        await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', () => resolve()));
+        port = (probe.address() as net.AddressInfo).port;
+        await new Promise(resolve => probe.close(resolve));
+
+        const script = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-holder-')), 'hold.js');
+        fs.writeFileSync(script, "require('net').createServer().listen(Number(process.argv[2]), '127.0.0.1');\n");
+        holder = createService(`sh -c '"${process.execPath}" ${script} ${port}; true'; true`, 'Holder');
+        await processManager.startService(holder);
+
+        const deadline = Date.now() + 5000;
+        while (!(await isPortInUse(port)) && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+      });
+
+      it.each(['adopt', 'kill-and-restart'] as const)('should not let %s take the port from it', async (policy) => {
+        const errors: string[] = [];
+        eventBus.on('service:error', ({ data }) => errors.push((data as { error: string }).error));
+        const service = { ...createService('sleep 30', 'Other'), port, onPortConflict: policy };
+
+        expect(await processManager.startService(service)).toBe(false);
+        expect(errors[0]).toContain(`Port ${port} is used by service 'Holder'`);
+        expect(processManager.getServiceStatus(holder.id)).toBe('running');
+        expect(await isPortInUse(port)).toBe(true);
+      });
+    });
+
+    it('should take the cancel choice when no prompter is available', async () => {
+      const service = createService(conflictCommand);
+      const exited = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      await processManager.startService(service);
+      await exited;
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(processManager.getServiceStatus(service.id)).not.toBe('running');
+    });
+  });
+
+  describe('service references', () => {
+    it('should expand references to other services in env and command', async () => {
+      const api = { ...createService('sleep 30', 'API'), port: 4567 };
+      processManager.destroy();
+      processManager = new ProcessManager({
+        logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+        storageService: { getServices: async () => [api] },
+      });
+      const web = {
+        ...createService('echo "$API_URL port=${services.api.port}"', 'Web'),
+        env: { API_URL: '${services.api.url}' },
+      };
+      const printed = new Promise<string>(resolve => {
+        eventBus.on('service:log-update', ({ entry }) => {
+          if (entry.stream === 'stdout') {
+            resolve(entry.text);
+          }
+        });
+      });
+
+      expect(await processManager.startService(web)).toBe(true);
+      expect(await printed).toBe('http://localhost:4567 port=4567');
+    });
+
+    it('should refuse to start when a reference cannot be resolved', async () => {
+      const errors: string[] = [];
+      eventBus.on('service:error', ({ data }) => errors.push((data as { error: string }).error));
+      const web = { ...createService('sleep 30', 'Web'), env: { API_URL: '${services.api.url}' } };
+
+      expect(await processManager.startService(web)).toBe(false);
+      expect(errors[0]).toContain("Unknown service 'api'");
+    });
+  });
+
+  describe('port detection', () => {
+    it('should record ports announced in the output', async () => {
+      const service = createService('echo "Listening on :4321"; sleep 30');
+      const announced = new Promise(resolve => eventBus.on('service:log-update', ({ entry }) => {
+        if (entry.text.startsWith('Detected listening port')) {
+          resolve(entry.text);
+        }
+      }));
+
+      await processManager.startService(service);
+
+      expect(await announced).toBe('Detected listening port 4321');
+      expect(processManager.getServicePorts(service.id)).toEqual([4321]);
+    });
+
+    it('should find sockets the process tree listens on', async () => {
+      processManager.destroy();
+      processManager = new ProcessManager({
+        statusPollingInterval: 100,
+        logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+      });
+      const service = createService(`${process.execPath} -e "require('net').createServer().listen(0, '127.0.0.1')"`);
+
+      await processManager.startService(service);
+      const deadline = Date.now() + 5000;
+      while (processManager.getServicePorts(service.id).length === 0 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      expect(processManager.getServicePorts(service.id)).toHaveLength(1);
+    });
+  });
+
+  describe('resource monitoring', () => {
+    it('should sample the process tree and alert once over the memory threshold', async () => {
+      processManager.destroy();
+      processManager = new ProcessManager({
+        statusPollingInterval: 100,
+        logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+      });
+      const service = { ...createService(`${process.execPath} -e "setInterval(() => {}, 1000)"`), memoryThreshold: 1 };
+      const alerts: unknown[] = [];
+      eventBus.on('service:resource-alert', event => alerts.push(event.data));
+
+      await processManager.startService(service);
+      const deadline = Date.now() + 5000;
+      while (processManager.getServiceResources(service.id).length < 3 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      const samples = processManager.getServiceResources(service.id);
+      expect(samples.length).toBeGreaterThanOrEqual(3);
+      expect(samples[samples.length - 1]!.rss).toBeGreaterThan(1024 * 1024);
+      expect(alerts).toEqual([{ rss: expect.any(Number), threshold: 1024 * 1024 }]);
+      expect(processManager.getServiceLogs(service.id).map(entry => entry.text)).toContainEqual(
+        expect.stringMatching(/^Memory usage \d+ MB exceeds the 1 MB threshold$/)
+      );
+    });
+  });
+
+  describe('reattaching', () => {
+    let ledgerPath: string;
+    let ledger: ProcessLedger;
+
+    // A process an earlier session started and recorded before it went away
+    const spawnLeftover = async (service: Service) => {
+      const child = spawn('sleep', ['30'], { detached: true, stdio: 'ignore' });
+      await ledger.record({
+        serviceId: service.id,
+        servicePath: service.path,
+        pid: child.pid!,
+        command: 'sleep 30',
+        processStartTime: await getProcessStartTime(child.pid!),
+        startedAt: new Date().toISOString(),
+      });
+      return child;
+    };
+
+    const createManager = (options: { prompter?: { showMessage: (options: PromptOptions) => Promise<number> } } = {}) => {
+      processManager.destroy();
+      processManager = new ProcessManager({
+        gracefulShutdownTimeout: 500,
+        statusPollingInterval: 100,
+        logDir: fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-')),
+        ledgerPath,
+        ...options,
+      });
+    };
+
+    beforeEach(() => {
+      ledgerPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-ledger-')), 'processes.json');
+      ledger = new ProcessLedger(ledgerPath);
+    });
+
+    it('should record started services and forget them when stopped', async () => {
+      createManager();
+      const service = createService('sleep 30');
+
+      await processManager.startService(service);
+      expect(await ledger.read()).toEqual([expect.objectContaining({
+        serviceId: service.id,
+        command: 'sleep 30',
+        pid: expect.any(Number),
+      })]);
+
+      await processManager.stopService(service);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await ledger.read()).toEqual([]);
+    });
+
+    it('should reattach to a service that is still running and stop it on request', async () => {
+      const service = createService('sleep 30');
+      const leftover = await spawnLeftover(service);
+      createManager();
+
+      await processManager.reattachServices([service]);
+
+      expect(processManager.getServiceStatus(service.id)).toBe('running');
+      expect(processManager.getServiceLogs(service.id).map(entry => entry.text)).toContainEqual(
+        expect.stringContaining(`Reattached to PID ${leftover.pid}`)
+      );
+
+      await processManager.stopService(service);
+      expect(await isProcessAlive(leftover.pid!)).toBe(false);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await ledger.read()).toEqual([]);
+    });
+
+    it('should notice when a reattached process exits', async () => {
+      const service = createService('sleep 30');
+      const leftover = await spawnLeftover(service);
+      createManager();
+      await processManager.reattachServices([service]);
+      const stopped = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      leftover.kill('SIGKILL');
+
+      await stopped;
+      expect(processManager.getServiceStatus(service.id)).toBe('stopped');
+    });
+
+    it('should drop entries whose pid now belongs to another process', async () => {
+      const service = createService('sleep 30');
+      const leftover = await spawnLeftover(service);
+      const [entry] = await ledger.read();
+      await ledger.record({ ...entry!, processStartTime: entry!.processStartTime! - 1 });
+      createManager();
+
+      await processManager.reattachServices([service]);
+
+      expect(processManager.getServiceStatus(service.id)).toBe('stopped');
+      expect(await ledger.read()).toEqual([]);
+      leftover.kill('SIGKILL');
+    });
+
+    it('should leave detached services running on quit and resume their output', async () => {
+      const logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-logs-'));
+      const service = { ...createService('echo first; sleep 1; echo second >&2; sleep 30'), detached: true };
+      const logTexts = () => processManager.getServiceLogs(service.id).map(entry => entry.text);
+      const waitForLog = async (text: string) => {
+        const deadline = Date.now() + 3000;
+        while (!logTexts().includes(text) && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+      };
+      processManager.destroy();
+      processManager = new ProcessManager({ gracefulShutdownTimeout: 500, logDir, ledgerPath });
+
+      await processManager.startService(service);
+      await waitForLog('first');
+      expect(logTexts()).toContain('first');
+      const [entry] = await ledger.read();
+      expect(entry).toEqual(expect.objectContaining({ detached: true }));
+
+      await processManager.destroy();
+      expect(await isProcessAlive(entry!.pid)).toBe(true);
+      expect(await ledger.read()).toHaveLength(1);
+
+      processManager = new ProcessManager({ gracefulShutdownTimeout: 500, logDir, ledgerPath });
+      await processManager.reattachServices([service]);
+      await waitForLog('second');
+
+      expect(processManager.getServiceStatus(service.id)).toBe('running');
+      expect(logTexts()).toContain('second');
+      await processManager.stopService(service);
+      expect(await isProcessAlive(entry!.pid)).toBe(false);
+    });
+
+    it('should offer to stop processes of services that no longer exist', async () => {
+      const prompts: PromptOptions[] = [];
+      const leftover = await spawnLeftover(createService('sleep 30', 'Deleted'));
+      createManager({
+        prompter: {
+          showMessage: async (options) => {
+            prompts.push(options);
+            return options.buttons.indexOf('Stop');
+          },
+        },
+      });
+
+      await processManager.reattachServices([]);
+
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]!.message).toContain(`PID ${leftover.pid} (sleep 30)`);
+      expect(await isProcessAlive(leftover.pid!)).toBe(false);
+      expect(await ledger.read()).toEqual([]);
+    });
+  });
+
+  describe('restart policies', () => {
+    it('should not restart a service without a restart policy', async () => {
+      const service = createService('exit 1');
+      const listener = jest.fn();
+      eventBus.on('service:restarting', listener);
+      const stopped = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      await processManager.startService(service);
+      await stopped;
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should not restart a clean exit with on-failure', async () => {
+      const service = { ...createService('exit 0'), restartPolicy: { mode: 'on-failure' as const, initialDelay: 10 } };
+      const listener = jest.fn();
+      eventBus.on('service:restarting', listener);
+      const stopped = new Promise(resolve => eventBus.once('service:stopped', resolve));
+
+      await processManager.startService(service);
+      await stopped;
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should restart with exponential backoff until the crash-loop breaker trips', async () => {
+      const service = {
+        ...createService('exit 1'),
+        restartPolicy: {
+          mode: 'on-failure' as const,
+          initialDelay: 10,
+          crashLoopThreshold: 3,
+          crashLoopWindow: 10000,
+        },
+      };
+      const delays: number[] = [];
+      eventBus.on('service:restarting', event => delays.push((event.data as { delay: number }).delay));
+      const crashLoop = new Promise(resolve => eventBus.once('service:crash-loop', resolve));
+
+      await processManager.startService(service);
+
+      await expect(crashLoop).resolves.toMatchObject({
+        type: 'crash-loop',
+        data: { crashes: 3, window: 10000 },
+      });
+      expect(delays).toEqual([10, 20]);
+      expect(processManager.getServiceStatus(service.id)).toBe('error');
+    });
+  });
+
+  describe('readiness probes', () => {
+    const getFreePort = (): Promise<number> => new Promise((resolve) => {
+      const server = net.createServer().listen(0, () => {
+        const port = (server.address() as net.AddressInfo).port;
+        server.close(() => resolve(port));
+      });
+    });
+
+    it('should stay starting until the log pattern matches', async () => {
+      const service = {
+        ...createService('sleep 0.3; echo "ready in 12ms"; sleep 30'),
+        healthCheck: { type: 'log' as const, pattern: 'ready in \\d+ms' },
+      };
+
+      await processManager.startService(service);
+      expect(processManager.getServiceStatus(service.id)).toBe('starting');
+
+      await expect(processManager.waitForReady(service.id)).resolves.toBe(true);
+      expect(processManager.getServiceStatus(service.id)).toBe('running');
+      expect(processManager.getServiceHealth(service.id)).toBe('healthy');
+    });
+
+    it('should become running once the TCP port accepts connections', async () => {
+      const port = await getFreePort();
+      const service = {
+        ...createService(`sleep 0.3; node -e "require('net').createServer().listen(${port})"`),
+        port,
+        healthCheck: { type: 'tcp' as const, interval: 100 },
+      };
+
+      await processManager.startService(service);
+
+      await expect(processManager.waitForReady(service.id)).resolves.toBe(true);
+    });
+
+    it('should become running once the health check command succeeds', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-probe-'));
+      const service = {
+        ...createService('sleep 0.3; touch healthy; sleep 30', 'Probe', dir),
+        healthCheck: { type: 'command' as const, command: 'test -f healthy', interval: 100 },
+      };
+
+      await processManager.startService(service);
+      expect(processManager.getServiceStatus(service.id)).toBe('starting');
+
+      await expect(processManager.waitForReady(service.id)).resolves.toBe(true);
+    });
+
+    it('should mark the service as error when the probe times out', async () => {
+      const port = await getFreePort();
+      const service = {
+        ...createService('sleep 30'),
+        port,
+        healthCheck: { type: 'tcp' as const, interval: 50, timeout: 300 },
+      };
+      const errorListener = jest.fn();
+      eventBus.on('service:error', errorListener);
+
+      await processManager.startService(service);
+
+      await expect(processManager.waitForReady(service.id)).resolves.toBe(false);
+      expect(processManager.getServiceStatus(service.id)).toBe('error');
+      expect(processManager.getServiceHealth(service.id)).toBe('unhealthy');
+      expect(errorListener).toHaveBeenCalled();
+    });
+
+    it('should refuse to start when the health check cannot work', async () => {
+      const service = { ...createService('sleep 30'), healthCheck: { type: 'tcp' as const } };
+
+      await expect(processManager.startService(service)).resolves.toBe(false);
+    });
+  });
+
+  describe('groups', () => {
+    const createGroupService = (name: string, command: string, dependencies: string[] = []): Service => ({
+      ...createService(command, name, fs.mkdtempSync(path.join(os.tmpdir(), `runbar-${name}-`))),
+      dependencies,
+    });
+
+    const createGroup = (services: Service[]): Group => ({
+      id: 'group-1',
+      name: 'Stack',
+      services: services.map(s => s.id),
+      createdAt: '2023-01-01T00:00:00Z',
+      updatedAt: '2023-01-01T00:00:00Z',
+    });
+
+    it('should start dependencies first and stop in reverse order', async () => {
+      const db = {
+        ...createGroupService('db', 'sleep 0.2; echo ready; sleep 30'),
+        healthCheck: { type: 'log' as const, pattern: 'ready' },
+      };
+      const api = createGroupService('api', 'sleep 30', ['db']);
+      const web = createGroupService('web', 'sleep 30', ['api']);
+      const group = createGroup([web, api, db]);
+
+      const started: string[] = [];
+      const stopped: string[] = [];
+      eventBus.on('service:started', event => started.push(event.service.id));
+      eventBus.on('service:stopped', event => stopped.push(event.service.id));
+
+      const startResults = await processManager.startGroup(group, [web, api, db]);
+      expect(startResults.every(r => r.success)).toBe(true);
+      expect(started).toEqual(['db', 'api', 'web']);
+
+      const stopResults = await processManager.stopGroup(group, [web, api, db]);
+      expect(stopResults.every(r => r.success)).toBe(true);
+      expect(stopped).toEqual(['web', 'api', 'db']);
+    });
+
+    it('should fail the whole group when dependencies form a cycle', async () => {
+      const a = createGroupService('a', 'sleep 30', ['b']);
+      const b = createGroupService('b', 'sleep 30', ['a']);
+      const listener = jest.fn();
+      eventBus.on('group:error', listener);
+
+      const results = await processManager.startGroup(createGroup([a, b]), [a, b]);
+
+      expect(results).toEqual([
+        { service: 'a', success: false, error: 'Dependency cycle detected: a -> b -> a' },
+        { service: 'b', success: false, error: 'Dependency cycle detected: a -> b -> a' },
+      ]);
+      expect(listener).toHaveBeenCalled();
+      expect(processManager.getRunningServices()).toEqual([]);
+    });
+
+    it('should report dependents of a failed service as failed', async () => {
+      const db = createGroupService('db', 'sleep 30', ['missing']);
+      const api = createGroupService('api', 'sleep 30', ['db']);
+
+      const results = await processManager.startGroup(createGroup([db, api]), [db, api]);
+
+      expect(results).toEqual([
+        { service: 'db', success: false, error: 'Unknown dependency: missing' },
+        { service: 'api', success: false, error: 'Dependency failed to start: db' },
+      ]);
+    });
+  });
+});
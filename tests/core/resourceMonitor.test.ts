@@ -0,0 +1,66 @@
+import { parseProcStatUsage, parsePsTime, parseLsofFdCounts, readProcessUsage, ResourceSampler, formatBytes } from '../../src/core/resourceMonitor';
+
+describe('resourceMonitor', () => {
+  describe('parseProcStatUsage', () => {
+    it('should read CPU time and threads after the command name', () => {
+      const stat = '4242 (node (worker) x) S 1 4242 4242 0 -1 4194560 1200 0 0 0 250 50 0 0 20 0 11 0 123456 1000000 2000';
+
+      expect(parseProcStatUsage(stat)).toEqual({ cpuTime: 3000, threads: 11 });
+    });
+
+    it('should reject malformed lines', () => {
+      expect(parseProcStatUsage('garbage')).toBeNull();
+      expect(parseProcStatUsage('1 (sh) S 0')).toBeNull();
+    });
+  });
+
+  describe('parsePsTime', () => {
+    it.each([
+      ['0:01.50', 1500],
+      ['01:02:03', 3723000],
+      ['2-00:00:01', 172801000],
+    ])('should parse %p', (time, ms) => {
+      expect(parsePsTime(time)).toBe(ms);
+    });
+  });
+
+  describe('parseLsofFdCounts', () => {
+    it('should count numbered descriptors per process', () => {
+      const output = ['p100', 'fcwd', 'ftxt', 'f0', 'f1', 'f2', 'p200', 'fcwd', 'f0', 'f12', ''].join('\n');
+
+      expect(parseLsofFdCounts(output)).toEqual(new Map([[100, 3], [200, 2]]));
+    });
+  });
+
+  it('should format bytes as MB or GB', () => {
+    expect(formatBytes(300 * 1024 * 1024)).toBe('300 MB');
+    expect(formatBytes(1.5 * 1024 * 1024 * 1024)).toBe('1.5 GB');
+  });
+
+  it('should read the usage of a live process', async () => {
+    const [usage] = await readProcessUsage([process.pid]);
+
+    expect(usage?.pid).toBe(process.pid);
+    expect(usage?.rss).toBeGreaterThan(0);
+    expect(usage?.cpuTime).toBeGreaterThan(0);
+  });
+
+  it('should skip processes that no longer exist', async () => {
+    await expect(readProcessUsage([2 ** 22 + 1])).resolves.toEqual([]);
+  });
+
+  it('should report CPU relative to the previous sample', async () => {
+    const sampler = new ResourceSampler();
+
+    const first = await sampler.sample([process.pid]);
+    const busyUntil = Date.now() + 200;
+    while (Date.now() < busyUntil) {
+      // burn CPU
+    }
+    const second = await sampler.sample([process.pid]);
+
+    expect(first.cpu).toBe(0);
+    expect(first.processes).toBe(1);
+    expect(second.cpu).toBeGreaterThan(20);
+  });
+});
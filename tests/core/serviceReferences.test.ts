@@ -0,0 +1,46 @@
+import { expandServiceReferences, hasServiceReferences } from '../../src/core/serviceReferences';
+import { ServiceError } from '../../src/shared/types';
+import type { Service } from '../../src/shared/types';
+
+const createService = (id: string, name: string, port?: number): Service => ({
+  id,
+  name,
+  path: `/projects/${id}`,
+  command: 'npm start',
+  ...(port && { port }),
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+describe('serviceReferences', () => {
+  const api = createService('svc-1', 'API Server', 4000);
+  const worker = createService('svc-2', 'Worker');
+  const web = createService('svc-3', 'Web');
+  const services = [api, worker, web];
+
+  it('should detect references', () => {
+    expect(hasServiceReferences('http://${services.api.url}')).toBe(true);
+    expect(hasServiceReferences('${API_URL}')).toBe(false);
+  });
+
+  it('should expand ports and urls by slugged name or id', () => {
+    expect(expandServiceReferences('API=${services.api-server.url}', services, web, 'env API')).toBe(
+      'API=http://localhost:4000'
+    );
+    expect(expandServiceReferences('--port ${services.svc-1.port}', services, web, 'command')).toBe('--port 4000');
+    expect(expandServiceReferences('${services.API_Server.port}', services, web, 'command')).toBe('4000');
+  });
+
+  it('should fail for unknown services, missing ports and unknown attributes', () => {
+    expect(() => expandServiceReferences('${services.db.port}', services, web, 'command')).toThrow(ServiceError);
+    expect(() => expandServiceReferences('${services.db.port}', services, web, 'command')).toThrow(
+      "Unknown service 'db'"
+    );
+    expect(() => expandServiceReferences('${services.worker.url}', services, web, 'env WORKER')).toThrow(
+      "Service 'Worker' referenced by ${services.worker.url} (env WORKER) has no port"
+    );
+    expect(() => expandServiceReferences('${services.api-server.host}', services, web, 'command')).toThrow(
+      "Unknown attribute 'host'"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StorageService } from '../../src/services/storage';
+import { ValidationError } from '../../src/shared/types';
+import type { DiscoveredService } from '../../src/shared/types';
+
+// Real files in a temporary config directory rather than the mocked fs-extra
+jest.unmock('fs-extra');
+
+const discovered = (name: string, servicePath: string, extra: Partial<DiscoveredService> = {}): DiscoveredService => ({
+  name,
+  path: servicePath,
+  command: `docker compose up --no-deps ${name.split(' ').pop()}`,
+  projectType: 'docker',
+  configFile: 'compose.yaml',
+  ...extra,
+});
+
+describe('StorageService with a config directory', () => {
+  let configDir: string;
+  let storage: StorageService;
+
+  beforeEach(async () => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-storage-'));
+    storage = new StorageService({ configDir });
+    await storage.initialize();
+  });
+
+  describe('ports', () => {
+    it('should reject a port another service claims and name that service', async () => {
+      await storage.addService({ name: 'API', path: configDir, command: 'npm start', port: 4100 });
+
+      const adding = storage.addService({ name: 'Web', path: configDir, command: 'npm run dev', port: 4100 });
+
+      await expect(adding).rejects.toBeInstanceOf(ValidationError);
+      await expect(adding).rejects.toThrow("Port 4100 is already claimed by 'API'");
+      expect((await storage.getServices()).map(s => s.name)).toEqual(['API']);
+    });
+
+    it('should reject moving a service onto a claimed port', async () => {
+      await storage.addService({ name: 'API', path: configDir, command: 'npm start', port: 4100 });
+      const web = await storage.addService({ name: 'Web', path: configDir, command: 'npm run dev', port: 4200 });
+
+      await expect(storage.updateService(web.id, { port: 4100 })).rejects.toThrow("Port 4100 is already claimed by 'API'");
+    });
+
+    it('should give autoPort services distinct free ports from the configured range', async () => {
+      const portRange = { start: 47100, end: 47199 };
+      await storage.saveSettings({ ...(await storage.getSettings()), portRange });
+
+      const first = await storage.addService({ name: 'API', path: configDir, command: 'npm start', autoPort: true });
+      const second = await storage.addService({ name: 'Web', path: configDir, command: 'npm run dev', autoPort: true });
+      const fixed = await storage.addService({ name: 'Docs', path: configDir, command: 'npm run docs', autoPort: true, port: 4300 });
+
+      expect(first.port).toBeGreaterThanOrEqual(portRange.start);
+      expect(first.port).toBeLessThanOrEqual(portRange.end);
+      expect(second.port).toBeGreaterThan(first.port!);
+      expect(second.port).toBeLessThanOrEqual(portRange.end);
+      expect(fixed.port).toBe(4300);
+    });
+  });
+
+  describe('exportGroupAsProcfile', () => {
+    it('should name entries after services and run them from their directories', async () => {
+      const root = path.join(configDir, 'shop');
+      fs.mkdirSync(root);
+      const api = await storage.addService({ name: 'Shop API', path: path.join(root, 'api'), command: 'npm run dev' });
+      const apiV2 = await storage.addService({ name: 'shop api', path: path.join(root, 'api v2'), command: 'npm run dev' });
+      const worker = await storage.addService({ name: 'Worker', path: root, command: 'bin/worker --queue "default"' });
+      const group = await storage.addGroup({ name: 'Shop', services: [api.id, apiV2.id, worker.id] });
+      const procfilePath = path.join(root, 'Procfile');
+
+      const content = await storage.exportGroupAsProcfile(group.id, procfilePath);
+
+      expect(content).toBe([
+        'shop-api: cd api && npm run dev',
+        "shop-api-2: cd 'api v2' && npm run dev",
+        'worker: bin/worker --queue "default"',
+        '',
+      ].join('\n'));
+      expect(fs.readFileSync(procfilePath, 'utf-8')).toBe(content);
+    });
+
+    it('should use the services\' common directory without a file', async () => {
+      const web = await storage.addService({ name: 'Web', path: path.join(configDir, 'a', 'web'), command: 'npm start' });
+      const jobs = await storage.addService({ name: 'Jobs', path: path.join(configDir, 'b', 'web'), command: 'npm start' });
+      const group = await storage.addGroup({ name: 'All', services: [web.id, jobs.id] });
+
+      await expect(storage.exportGroupAsProcfile(group.id)).resolves.toBe(
+        'web: cd a/web && npm start\njobs: cd b/web && npm start\n'
+      );
+    });
+  });
+
+  describe('addDiscoveredServices', () => {
+    it('should link dependencies from the same compose file and drop missing ones', async () => {
+      const shop = path.join(configDir, 'shop');
+      const other = path.join(configDir, 'other');
+      await storage.addService({ name: 'shop cache', path: other, command: 'redis-server' });
+
+      const added = await storage.addDiscoveredServices([
+        discovered('shop db', shop, { port: 47200 }),
+        discovered('shop api', shop, { dependsOn: ['shop db', 'shop cache', 'shop queue'] }),
+      ]);
+
+      const db = added.find(s => s.name === 'shop db')!;
+      const api = added.find(s => s.name === 'shop api')!;
+      expect(db.port).toBe(47200);
+      expect(api.dependencies).toEqual([db.id]);
+      expect((await storage.getServices()).find(s => s.id === api.id)?.dependencies).toEqual([db.id]);
+    });
+
+    it('should link a dependency imported earlier from the same directory', async () => {
+      const shop = path.join(configDir, 'shop');
+      const [db] = await storage.addDiscoveredServices([discovered('shop db', shop)]);
+
+      const [api] = await storage.addDiscoveredServices([discovered('shop api', shop, { dependsOn: ['shop db'] })]);
+
+      expect(api!.dependencies).toEqual([db!.id]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readComposeProject, parseComposeDuration, parsePublishedPort } from '../../src/services/compose';
+
+describe('compose', () => {
+  let dir: string;
+
+  const write = (fileName: string, content: string) => fs.writeFileSync(path.join(dir, fileName), content);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-compose-'));
+  });
+
+  it.each([
+    ['10s', 10000],
+    ['1m30s', 90000],
+    ['500ms', 500],
+    ['soon', null],
+  ])('should parse the duration %p', (value, expected) => {
+    expect(parseComposeDuration(value)).toBe(expected);
+  });
+
+  it.each([
+    ['8080:80', 8080],
+    ['127.0.0.1:5433:5432/tcp', 5433],
+    ['3000-3005:3000-3005', 3000],
+    ['80', null],
+    [{ target: 80, published: '8081' }, 8081],
+    [{ target: 80 }, null],
+  ])('should read the published port of %p', (entry, expected) => {
+    expect(parsePublishedPort(entry)).toBe(expected);
+  });
+
+  it('should return null without a compose file', async () => {
+    await expect(readComposeProject(dir)).resolves.toBeNull();
+  });
+
+  it('should describe each service with its port, dependencies and healthcheck', async () => {
+    write('compose.yaml', [
+      'name: shop',
+      'services:',
+      '  db:',
+      '    image: postgres:16',
+      '    ports: ["5433:5432"]',
+      '    healthcheck:',
+      '      test: ["CMD", "pg_isready"]',
+      '      interval: 2s',
+      '      retries: 5',
+      '  api:',
+      '    build: .',
+      '    ports:',
+      '      - target: 3000',
+      '        published: 3001',
+      '    depends_on:',
+      '      db:',
+      '        condition: service_healthy',
+      '      missing:',
+      '        condition: service_started',
+      '  mailer:',
+      '    image: mailhog/mailhog',
+      '    profiles: [debug]',
+    ].join('\n'));
+
+    const project = await readComposeProject(dir);
+
+    expect(project?.name).toBe('shop');
+    expect(project?.files).toEqual(['compose.yaml']);
+    expect(project?.services).toEqual([
+      expect.objectContaining({
+        name: 'db',
+        command: 'docker compose up --no-deps db',
+        port: 5433,
+        dependsOn: [],
+        healthCheck: expect.objectContaining({ type: 'command', interval: 2000, timeout: 70000 }),
+      }),
+      { name: 'api', command: 'docker compose up --no-deps api', port: 3001, dependsOn: ['db'], profiles: [] },
+      { name: 'mailer', command: 'docker compose --profile debug up --no-deps mailer', dependsOn: [], profiles: ['debug'] },
+    ]);
+    expect(project?.services[0]?.healthCheck?.command).toContain('docker compose ps -q db');
+  });
+
+  it('should merge the override file and fall back to older file names', async () => {
+    write('docker-compose.yml', 'services:\n  web:\n    image: nginx\n    healthcheck:\n      disable: true\n');
+    write('docker-compose.override.yml', 'services:\n  web:\n    ports: ["8080:80"]\n  cache:\n    image: redis\n');
+
+    const project = await readComposeProject(dir);
+
+    expect(project?.name).toBe(path.basename(dir));
+    expect(project?.files).toEqual(['docker-compose.yml', 'docker-compose.override.yml']);
+    expect(project?.services).toEqual([
+      { name: 'web', command: 'docker compose up --no-deps web', port: 8080, dependsOn: [], profiles: [] },
+      { name: 'cache', command: 'docker compose up --no-deps cache', dependsOn: [], profiles: [] },
+    ]);
+  });
+});
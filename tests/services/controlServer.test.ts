@@ -0,0 +1,174 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { mkdtempSync, statSync } from 'fs';
+import { ControlServer } from '../../src/services/controlServer';
+import { eventBus } from '../../src/shared/events';
+import type { Service, Group, LogEntry } from '../../src/shared/types';
+
+const service: Service = {
+  id: 'api-1',
+  name: 'API',
+  path: '/projects/api',
+  command: 'npm start',
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+const group: Group = {
+  id: 'group-1',
+  name: 'Stack',
+  services: ['api-1'],
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+const logEntry: LogEntry = { timestamp: new Date('2024-01-01T00:00:00Z'), stream: 'stdout', text: 'listening' };
+
+// Minimal line-based JSON-RPC client
+const connect = async (socketPath: string) => {
+  const socket = net.connect(socketPath);
+  await new Promise(resolve => socket.once('connect', resolve));
+  const messages: any[] = [];
+  const waiters: (() => void)[] = [];
+  readline.createInterface({ input: socket }).on('line', (line) => {
+    messages.push(JSON.parse(line));
+    waiters.splice(0).forEach(wake => wake());
+  });
+
+  const next = async (predicate: (message: any) => boolean): Promise<any> => {
+    for (;;) {
+      const index = messages.findIndex(predicate);
+      if (index !== -1) {
+        return messages.splice(index, 1)[0];
+      }
+      await new Promise<void>(resolve => waiters.push(resolve));
+    }
+  };
+
+  let nextId = 1;
+  const call = async (method: string, params?: Record<string, unknown>) => {
+    const id = nextId++;
+    socket.write(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    return next(message => message.id === id);
+  };
+
+  return { socket, call, next, send: (raw: string) => socket.write(`${raw}\n`) };
+};
+
+describe('ControlServer', () => {
+  let server: ControlServer;
+  let socketPath: string;
+  let started: Service[];
+
+  beforeEach(async () => {
+    started = [];
+    socketPath = path.join(mkdtempSync(path.join(os.tmpdir(), 'runbar-sock-')), 'runbar.sock');
+    server = new ControlServer({
+      socketPath,
+      storageService: {
+        getServices: async () => [service],
+        getGroups: async () => [group],
+      },
+      processManager: {
+        startService: async (s) => {
+          started.push(s);
+          return true;
+        },
+        stopService: async () => false,
+        restartService: async () => true,
+        startGroup: async () => [{ service: 'api-1', success: true }],
+        stopGroup: async () => [{ service: 'api-1', success: true }],
+        getServiceStatus: () => 'running',
+        getServiceHealth: () => 'healthy',
+        getServicePorts: () => [],
+        getServiceResources: () => [],
+        readLogs: async () => [logEntry],
+      },
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should create the socket readable only by the current user', () => {
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should refuse to start while another instance is listening', async () => {
+    const second = new ControlServer({ ...(server as any).options, socketPath });
+    await expect(second.start()).rejects.toThrow('Another Runbar instance');
+  });
+
+  it('should list and start services by name', async () => {
+    const client = await connect(socketPath);
+
+    const list = await client.call('services.list');
+    expect(list.result).toEqual([expect.objectContaining({ id: 'api-1', status: 'running', health: 'healthy' })]);
+
+    const start = await client.call('services.start', { service: 'api' });
+    expect(start.result).toMatchObject({ id: 'api-1' });
+    expect(started).toEqual([service]);
+
+    client.socket.destroy();
+  });
+
+  it('should report errors with JSON-RPC codes', async () => {
+    const client = await connect(socketPath);
+
+    await expect(client.call('services.start', { service: 'missing' })).resolves.toMatchObject({
+      error: { code: -32001, message: 'Unknown service: missing' },
+    });
+    await expect(client.call('services.stop', { service: 'api-1' })).resolves.toMatchObject({
+      error: { code: -32002, message: 'Failed to stop API' },
+    });
+    await expect(client.call('services.start')).resolves.toMatchObject({ error: { code: -32602 } });
+    await expect(client.call('nope')).resolves.toMatchObject({ error: { code: -32601 } });
+    client.send('{not json');
+    await expect(client.next(message => message.id === null)).resolves.toMatchObject({
+      error: { code: -32700 },
+    });
+
+    client.socket.destroy();
+  });
+
+  it('should tail logs and follow new entries', async () => {
+    const client = await connect(socketPath);
+
+    const tail = await client.call('logs.tail', { service: 'api-1', follow: true });
+    expect(tail.result.entries).toEqual([{ ...logEntry, timestamp: logEntry.timestamp.toISOString() }]);
+
+    eventBus.emitServiceLogUpdate(service, { ...logEntry, text: 'GET /' });
+    const notification = await client.next(message => message.method === 'logs.entry');
+    expect(notification.params).toMatchObject({
+      subscription: tail.result.subscription,
+      service: 'api-1',
+      entry: { text: 'GET /' },
+    });
+
+    client.socket.destroy();
+  });
+
+  it('should forward subscribed events until unsubscribed', async () => {
+    const client = await connect(socketPath);
+
+    const subscribe = await client.call('events.subscribe', { events: ['service:started'] });
+    const { subscription } = subscribe.result;
+
+    eventBus.emitServiceStarted(service);
+    await expect(client.next(message => message.method === 'event')).resolves.toMatchObject({
+      params: { subscription, type: 'service:started', payload: { service: { id: 'api-1' } } },
+    });
+
+    await client.call('events.unsubscribe', { subscription });
+    expect(eventBus.listenerCount('service:started')).toBe(0);
+    await expect(client.call('events.subscribe', { events: ['bogus'] })).resolves.toMatchObject({
+      error: { code: -32602 },
+    });
+
+    client.socket.destroy();
+  });
+});
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  detectPackageManager,
+  dependenciesInstalled,
+  parsePackageManagerField,
+  runScriptCommand,
+} from '../../src/services/packageManagers';
+
+describe('packageManagers', () => {
+  let root: string;
+
+  const write = (relativePath: string, content = '') => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-pm-'));
+    fs.mkdirSync(path.join(root, '.git'));
+  });
+
+  it.each([
+    ['pnpm@8.15.4', 'pnpm'],
+    ['yarn@1.22.19', 'yarn'],
+    ['yarn@4.1.0+sha256.abc', 'yarn-berry'],
+    ['bun@1.0.0', 'bun'],
+    ['deno@1', null],
+    [42, null],
+  ])('should parse the packageManager field %p', (value, expected) => {
+    expect(parsePackageManagerField(value)).toBe(expected);
+  });
+
+  it.each([
+    ['pnpm-lock.yaml', '', 'pnpm'],
+    ['bun.lockb', '', 'bun'],
+    ['package-lock.json', '{}', 'npm'],
+    ['yarn.lock', '# yarn lockfile v1\n', 'yarn'],
+    ['yarn.lock', '__metadata:\n  version: 6\n', 'yarn-berry'],
+  ])('should detect %p', async (lockfile, content, expected) => {
+    write(lockfile, content);
+
+    await expect(detectPackageManager(root)).resolves.toEqual({ packageManager: expected, root });
+  });
+
+  it('should prefer the packageManager field over lockfiles', async () => {
+    write('package.json', JSON.stringify({ packageManager: 'pnpm@9.0.0' }));
+    write('package-lock.json', '{}');
+
+    expect((await detectPackageManager(root)).packageManager).toBe('pnpm');
+  });
+
+  it('should find the lockfile of an enclosing monorepo but not beyond the repository', async () => {
+    write('yarn.lock');
+    write('apps/web/package.json', '{}');
+
+    await expect(detectPackageManager(path.join(root, 'apps/web'))).resolves.toEqual({ packageManager: 'yarn', root });
+
+    const nested = path.join(root, 'apps/web');
+    fs.mkdirSync(path.join(nested, '.git'));
+    expect((await detectPackageManager(nested)).packageManager).toBe('npm');
+  });
+
+  it('should generate the matching run command', () => {
+    expect(runScriptCommand('npm', 'dev')).toBe('npm run dev');
+    expect(runScriptCommand('yarn-berry', 'dev')).toBe('yarn dev');
+    expect(runScriptCommand('pnpm', 'dev')).toBe('pnpm run dev');
+    expect(runScriptCommand('bun', 'dev')).toBe('bun run dev');
+  });
+
+  describe('dependenciesInstalled', () => {
+    const appPath = () => path.join(root, 'apps/web');
+
+    beforeEach(() => {
+      write('apps/web/package.json', JSON.stringify({ dependencies: { react: '^18.0.0' } }));
+    });
+
+    it('should report missing node_modules', async () => {
+      await expect(dependenciesInstalled(appPath(), { packageManager: 'npm', root })).resolves.toBe(false);
+    });
+
+    it('should accept dependencies hoisted to the install root or installed by Plug\'n\'Play', async () => {
+      fs.mkdirSync(path.join(root, 'node_modules'));
+      await expect(dependenciesInstalled(appPath(), { packageManager: 'pnpm', root })).resolves.toBe(true);
+
+      fs.rmdirSync(path.join(root, 'node_modules'));
+      write('.pnp.cjs');
+      await expect(dependenciesInstalled(appPath(), { packageManager: 'yarn-berry', root })).resolves.toBe(true);
+    });
+
+    it('should not require node_modules without dependencies', async () => {
+      write('apps/web/package.json', JSON.stringify({ scripts: { dev: 'node server.js' } }));
+
+      await expect(dependenciesInstalled(appPath(), { packageManager: 'npm', root })).resolves.toBe(true);
+    });
+  });
+});
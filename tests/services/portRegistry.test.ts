@@ -0,0 +1,49 @@
+import { PortRegistry } from '../../src/services/portRegistry';
+import { ValidationError } from '../../src/shared/types';
+import type { Service } from '../../src/shared/types';
+
+const createService = (id: string, port?: number): Service => ({
+  id,
+  name: id.toUpperCase(),
+  path: `/projects/${id}`,
+  command: 'npm start',
+  ...(port && { port }),
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+describe('PortRegistry', () => {
+  it('should reject a port claimed by another service', () => {
+    const registry = new PortRegistry([createService('api', 3000)]);
+
+    expect(() => registry.assertAvailable(createService('web', 3000))).toThrow(ValidationError);
+    expect(() => registry.assertAvailable(createService('web', 3000))).toThrow("already claimed by 'API'");
+    expect(() => registry.assertAvailable(createService('api', 3000))).not.toThrow();
+    expect(() => registry.assertAvailable(createService('web'))).not.toThrow();
+  });
+
+  it('should report overlapping claims', () => {
+    const registry = new PortRegistry([
+      createService('api', 3000),
+      createService('web', 3000),
+      createService('docs', 3001),
+    ]);
+
+    expect(registry.findOverlaps()).toEqual([{ port: 3000, serviceIds: ['api', 'web'] }]);
+  });
+
+  it('should allocate the first port that is neither claimed nor in use', async () => {
+    const registry = new PortRegistry([createService('api', 4000)]);
+    const inUse = async (port: number) => port === 4001;
+
+    expect(await registry.allocate({ start: 4000, end: 4010 }, inUse)).toBe(4002);
+  });
+
+  it('should fail when the range is exhausted', async () => {
+    const registry = new PortRegistry([createService('api', 4000), createService('web', 4001)]);
+
+    await expect(registry.allocate({ start: 4000, end: 4001 }, async () => false)).rejects.toThrow(
+      'No free port left in 4000-4001'
+    );
+  });
+});
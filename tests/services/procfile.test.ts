@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  parseProcfile,
+  formatProcfile,
+  readProcfile,
+  commonDirectory,
+  procfileEntriesForServices,
+} from '../../src/services/procfile';
+import type { Service } from '../../src/shared/types';
+
+const createService = (name: string, servicePath: string, command: string): Service => ({
+  id: name,
+  name,
+  path: servicePath,
+  command,
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+describe('procfile', () => {
+  it('should parse process types and skip comments and malformed lines', () => {
+    const content = [
+      '# local processes',
+      'web: bin/rails server -p $PORT',
+      '',
+      'worker:bundle exec sidekiq',
+      'not a process',
+      'web: duplicate',
+    ].join('\n');
+
+    expect(parseProcfile(content)).toEqual([
+      { name: 'web', command: 'bin/rails server -p $PORT' },
+      { name: 'worker', command: 'bundle exec sidekiq' },
+    ]);
+  });
+
+  it('should round-trip entries', () => {
+    const entries = [{ name: 'web', command: 'npm start' }, { name: 'css', command: 'npm run watch:css' }];
+
+    expect(parseProcfile(formatProcfile(entries))).toEqual(entries);
+  });
+
+  it('should prefer Procfile.dev', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-procfile-'));
+    fs.writeFileSync(path.join(dir, 'Procfile'), 'web: bin/start\n');
+    fs.writeFileSync(path.join(dir, 'Procfile.dev'), 'web: bin/dev\n');
+
+    await expect(readProcfile(dir)).resolves.toEqual({ fileName: 'Procfile.dev', entries: [{ name: 'web', command: 'bin/dev' }] });
+  });
+
+  it('should find the common directory of service paths', () => {
+    expect(commonDirectory(['/code/shop/api', '/code/shop/web', '/code/shop'])).toBe('/code/shop');
+    expect(commonDirectory(['/code/shop/api', '/code/shopfront'])).toBe('/code');
+    expect(commonDirectory(['/home/u/proj/api', '/home/u/other/api'])).toBe('/home/u');
+  });
+
+  it('should name entries after services and run them from their directories', () => {
+    const services = [
+      createService('Shop API', '/code/shop/api', 'npm run dev'),
+      createService('shop api', '/code/shop/api v2', 'npm run dev'),
+      createService('Worker', '/code/shop', 'bin/worker'),
+    ];
+
+    expect(procfileEntriesForServices(services, '/code/shop')).toEqual([
+      { name: 'shop-api', command: 'cd api && npm run dev' },
+      { name: 'shop-api-2', command: "cd 'api v2' && npm run dev" },
+      { name: 'worker', command: 'bin/worker' },
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import http from 'http';
+import net from 'net';
+import { ProxyServer } from '../../src/services/proxyServer';
+import type { Service, ServiceStatus } from '../../src/shared/types';
+
+const createService = (id: string, name: string): Service => ({
+  id,
+  name,
+  path: `/projects/${id}`,
+  command: 'npm start',
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+});
+
+const api = createService('api-1', 'API Server');
+const web = createService('web-1', 'Web');
+
+interface ProxyResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const get = (port: number, host: string, urlPath = '/'): Promise<ProxyResponse> => new Promise((resolve, reject) => {
+  http.get({ host: '127.0.0.1', port, path: urlPath, headers: { host } }, (response) => {
+    let body = '';
+    response.setEncoding('utf-8');
+    response.on('data', (chunk: string) => { body += chunk; });
+    response.on('end', () => resolve({ status: response.statusCode ?? 0, headers: response.headers, body }));
+  }).on('error', reject);
+});
+
+describe('ProxyServer', () => {
+  let upstream: http.Server;
+  let upstreamPort: number;
+  let proxy: ProxyServer;
+  let statuses: Record<string, ServiceStatus>;
+  let started: string[];
+
+  const createProxy = async (startOnRequest = false): Promise<number> => {
+    proxy = new ProxyServer({
+      storageService: { getServices: async () => [api, web] },
+      processManager: {
+        startService: async (service) => {
+          started.push(service.id);
+          statuses[service.id] = 'running';
+          return true;
+        },
+        waitForReady: async () => true,
+        getServiceStatus: id => statuses[id] ?? 'stopped',
+        getServicePorts: id => (statuses[id] === 'running' ? [upstreamPort] : []),
+      },
+      port: 0,
+      startOnRequest,
+    });
+    await proxy.start();
+    return proxy.getPort()!;
+  };
+
+  beforeEach(async () => {
+    statuses = {};
+    started = [];
+    upstream = http.createServer((request, response) => {
+      response.setHeader('x-upstream', 'yes');
+      response.end(JSON.stringify({
+        url: request.url,
+        host: request.headers.host,
+        forwardedHost: request.headers['x-forwarded-host'],
+      }));
+    });
+    upstream.on('upgrade', (_request, socket: net.Socket) => {
+      socket.write('HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+      socket.on('data', data => socket.write(data));
+      socket.on('end', () => socket.end());
+    });
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+    upstreamPort = (upstream.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await proxy.stop();
+    upstream.closeAllConnections();
+    await new Promise(resolve => upstream.close(resolve));
+  });
+
+  it('should route by the service name in the Host header', async () => {
+    statuses[api.id] = 'running';
+    const port = await createProxy();
+
+    const response = await get(port, `api-server.localhost:${port}`, '/users?page=2');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-upstream']).toBe('yes');
+    expect(JSON.parse(response.body)).toEqual({
+      url: '/users?page=2',
+      host: `api-server.localhost:${port}`,
+      forwardedHost: `api-server.localhost:${port}`,
+    });
+  });
+
+  it('should show a status page when the service is stopped', async () => {
+    const port = await createProxy();
+
+    const response = await get(port, 'web.localhost');
+
+    expect(response.status).toBe(503);
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.body).toContain('Web is stopped');
+    expect(response.body).toContain(`http://api-server.localhost:${port}/`);
+    expect(started).toEqual([]);
+  });
+
+  it('should answer unknown hosts with 404 and escape them', async () => {
+    const port = await createProxy();
+
+    const response = await get(port, '<b>nope</b>.localhost');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toContain('&lt;b&gt;nope&lt;/b&gt;');
+  });
+
+  it('should start a stopped service on first request when enabled', async () => {
+    const port = await createProxy(true);
+
+    const response = await get(port, 'web.localhost', '/');
+
+    expect(started).toEqual(['web-1']);
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body).url).toBe('/');
+  });
+
+  it('should show 502 when the service does not answer', async () => {
+    statuses[web.id] = 'running';
+    const port = await createProxy();
+    await new Promise(resolve => upstream.close(resolve));
+
+    const response = await get(port, 'web.localhost');
+
+    expect(response.status).toBe(502);
+    expect(response.body).toContain('Web is not responding');
+    upstream = http.createServer();
+    await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+  });
+
+  it('should forward WebSocket upgrades', async () => {
+    statuses[web.id] = 'running';
+    const port = await createProxy();
+
+    const socket = net.connect(port, '127.0.0.1');
+    let received = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => { received += chunk; });
+    socket.write([
+      'GET /socket HTTP/1.1',
+      'Host: web.localhost',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      '',
+      '',
+    ].join('\r\n'));
+
+    const waitFor = async (text: string) => {
+      const deadline = Date.now() + 2000;
+      while (!received.includes(text) && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    };
+
+    await waitFor('101 Switching Protocols');
+    socket.write('ping');
+    await waitFor('ping');
+    socket.destroy();
+
+    expect(received).toContain('101 Switching Protocols');
+    expect(received.endsWith('ping')).toBe(true);
+  });
+});
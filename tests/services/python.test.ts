@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { inferPythonProject, readTomlTables, runInEnvironment } from '../../src/services/python';
+
+describe('python', () => {
+  let dir: string;
+
+  const write = (fileName: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(dir, fileName)), { recursive: true });
+    fs.writeFileSync(path.join(dir, fileName), content);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-python-'));
+  });
+
+  it('should split pyproject.toml into tables', () => {
+    const tables = readTomlTables('[project]\nname = "shop"\n\n[tool.poetry.dependencies]\npython = "^3.12"\n');
+
+    expect([...tables.keys()]).toEqual(['project', 'tool.poetry.dependencies']);
+    expect(tables.get('project')).toContain('name = "shop"');
+  });
+
+  it.each([
+    ['uv', 'uvicorn', 'uv run uvicorn'],
+    ['pipenv', 'python', 'pipenv run python'],
+    ['venv', 'flask', '.venv/bin/flask'],
+    ['system', 'python', 'python3'],
+  ] as const)('should run %s commands in the environment', (runner, program, expected) => {
+    expect(runInEnvironment(runner, program)).toBe(expected);
+  });
+
+  it('should run Django through manage.py', async () => {
+    write('requirements.txt', 'django\n');
+    write('manage.py');
+    write('.venv/bin/python');
+
+    await expect(inferPythonProject(dir)).resolves.toEqual({
+      runner: 'venv',
+      packageManager: 'pip',
+      framework: 'django',
+      command: '.venv/bin/python manage.py runserver',
+      port: 8000,
+    });
+  });
+
+  it('should run a FastAPI app with uvicorn through uv', async () => {
+    write('pyproject.toml', '[project]\nname = "orders"\ndependencies = ["fastapi"]\n');
+    write('uv.lock');
+    write('app/__init__.py');
+    write('app/main.py', 'from fastapi import FastAPI\n\napp = FastAPI(title="Orders")\n');
+    write('tests/test_main.py', 'from fastapi import FastAPI\n\ntest_app = FastAPI()\n');
+
+    await expect(inferPythonProject(dir)).resolves.toEqual({
+      name: 'orders',
+      runner: 'uv',
+      packageManager: 'uv',
+      framework: 'fastapi',
+      command: 'uv run uvicorn app.main:app --reload',
+      port: 8000,
+    });
+  });
+
+  it('should find a Flask app in a src layout of a Poetry project', async () => {
+    write('pyproject.toml', '[tool.poetry]\nname = "blog"\n');
+    write('src/blog/server.py', 'import flask\n\nserver = flask.Flask(__name__)\n');
+
+    const project = await inferPythonProject(dir);
+
+    expect(project).toMatchObject({ name: 'blog', runner: 'poetry', framework: 'flask', port: 5000 });
+    expect(project.command).toBe('poetry run flask --app src/blog.server:server run --debug');
+  });
+
+  it('should fall back to the entry script without a framework', async () => {
+    write('Pipfile');
+    write('main.py', 'print("hello")\n');
+
+    await expect(inferPythonProject(dir)).resolves.toEqual({
+      runner: 'pipenv',
+      packageManager: 'pipenv',
+      framework: null,
+      command: 'pipenv run python main.py',
+    });
+  });
+});
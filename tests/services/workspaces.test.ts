@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readWorkspace, expandWorkspacePatterns, workspaceCommand } from '../../src/services/workspaces';
+
+describe('workspaces', () => {
+  let root: string;
+
+  const write = (relativePath: string, content: unknown) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  const commands = async () => {
+    const workspace = await readWorkspace(root, { ignorePatterns: ['node_modules'] });
+    return workspace?.projects.map(project => [path.relative(root, project.path), project.command]);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'runbar-monorepo-'));
+    fs.mkdirSync(path.join(root, '.git'));
+  });
+
+  it('should not treat a plain package as a monorepo', async () => {
+    write('package.json', { name: 'app', scripts: { dev: 'vite' } });
+
+    await expect(readWorkspace(root)).resolves.toBeNull();
+  });
+
+  it('should expand wildcards, globstars and negations', async () => {
+    write('apps/web/package.json', {});
+    write('apps/docs/package.json', {});
+    write('packages/ui/core/package.json', {});
+    write('packages/node_modules/dep/package.json', {});
+
+    const dirs = await expandWorkspacePatterns(root, ['apps/*', 'packages/**', '!apps/docs'], { ignorePatterns: ['node_modules'] });
+
+    expect(dirs.map(dir => path.relative(root, dir))).toEqual(['apps/web', 'packages', 'packages/ui', 'packages/ui/core']);
+  });
+
+  it('should list runnable pnpm workspace packages with filtered commands', async () => {
+    write('package.json', { name: 'acme', scripts: { dev: 'turbo dev' } });
+    write('pnpm-workspace.yaml', "packages:\n  - 'apps/*'\n  - \"packages/*\"\n");
+    write('apps/web/package.json', { name: 'web', scripts: { build: 'next build', dev: 'next dev' } });
+    write('apps/api/package.json', { name: '@acme/api', scripts: { start: 'node server.js' } });
+    write('packages/utils/package.json', { name: 'utils', scripts: { build: 'tsc' } });
+
+    const workspace = await readWorkspace(root);
+
+    expect(workspace).toEqual(expect.objectContaining({ name: 'acme', tool: 'pnpm', packageManager: 'pnpm' }));
+    expect(await commands()).toEqual([
+      ['apps/api', 'pnpm --filter @acme/api start'],
+      ['apps/web', 'pnpm --filter web dev'],
+    ]);
+  });
+
+  it('should use the package manager of the lockfile for package.json workspaces', async () => {
+    write('package.json', { name: 'acme', workspaces: { packages: ['apps/*'] } });
+    write('apps/web/package.json', { name: 'web', scripts: { dev: 'vite' } });
+
+    expect(await commands()).toEqual([['apps/web', 'npm run dev --workspace web']]);
+
+    write('yarn.lock', '');
+    expect(await commands()).toEqual([['apps/web', 'yarn workspace web dev']]);
+  });
+
+  it('should run packages through Turborepo and Lerna when configured', async () => {
+    write('package.json', { name: 'acme', workspaces: ['apps/*'] });
+    write('apps/web/package.json', { name: 'web', scripts: { dev: 'vite' } });
+    write('lerna.json', {});
+
+    expect(await commands()).toEqual([['apps/web', 'npx lerna run dev --scope web']]);
+
+    write('turbo.json', {});
+    expect(await commands()).toEqual([['apps/web', 'npx turbo run dev --filter=web']]);
+  });
+
+  it('should find Nx projects by their project.json targets', async () => {
+    write('package.json', { name: 'acme' });
+    write('nx.json', {});
+    write('apps/api/project.json', { name: 'api', targets: { build: {}, serve: {} } });
+    write('libs/shared/project.json', { name: 'shared', targets: { build: {} } });
+
+    expect(await commands()).toEqual([['apps/api', 'npx nx serve api']]);
+  });
+
+  it('should build commands for each tool', () => {
+    expect(workspaceCommand('pnpm', 'pnpm', 'web', 'dev')).toBe('pnpm --filter web dev');
+    expect(workspaceCommand('nx', 'npm', 'api', 'serve')).toBe('npx nx serve api');
+  });
+});
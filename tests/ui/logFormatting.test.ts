@@ -0,0 +1,51 @@
+import { ansiToHtml, detectLogLevel, stripAnsi } from '../../src/ui/logFormatting';
+import type { LogEntry } from '../../src/shared/types';
+
+const entry = (text: string, stream: LogEntry['stream'] = 'stdout'): LogEntry => ({
+  timestamp: new Date('2024-01-01T00:00:00Z'),
+  stream,
+  text,
+});
+
+describe('logFormatting', () => {
+  describe('ansiToHtml', () => {
+    it('should escape HTML in plain text', () => {
+      expect(ansiToHtml('<b>&</b>')).toBe('&lt;b&gt;&amp;&lt;/b&gt;');
+    });
+
+    it('should render colours and reset them', () => {
+      expect(ansiToHtml('\u001b[31mred\u001b[0m plain'))
+        .toBe('<span style="color: #cd3131">red</span> plain');
+    });
+
+    it('should combine bold with 256 and truecolour codes', () => {
+      expect(ansiToHtml('\u001b[1;38;5;196mhot\u001b[48;2;0;0;255m!\u001b[39;49;22m done')).toBe(
+        '<span style="color: rgb(255, 0, 0); font-weight: bold">hot</span>'
+          + '<span style="color: rgb(255, 0, 0); background: rgb(0, 0, 255); font-weight: bold">!</span> done'
+      );
+    });
+
+    it('should drop cursor movement sequences', () => {
+      expect(ansiToHtml('\u001b[2K\u001b[1Gprogress')).toBe('progress');
+    });
+  });
+
+  describe('stripAnsi', () => {
+    it('should remove escape sequences', () => {
+      expect(stripAnsi('\u001b[32m✓\u001b[39m compiled')).toBe('✓ compiled');
+    });
+  });
+
+  describe('detectLogLevel', () => {
+    it('should infer the level from the text', () => {
+      expect(detectLogLevel(entry('[ERROR] connection refused'))).toBe('error');
+      expect(detectLogLevel(entry('\u001b[33mwarn\u001b[39m - slow query'))).toBe('warn');
+      expect(detectLogLevel(entry('DEBUG cache miss'))).toBe('debug');
+      expect(detectLogLevel(entry('Listening on :3000', 'stderr'))).toBe('info');
+    });
+
+    it('should treat Runbar messages as info', () => {
+      expect(detectLogLevel(entry('Process exited with code 1 (error)', 'system'))).toBe('info');
+    });
+  });
+});